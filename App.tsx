@@ -1,209 +1,504 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { LanguageSelector } from './components/LanguageSelector';
+import { TargetLanguagesSelector } from './components/TargetLanguagesSelector';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
 import { TranslationDisplay } from './components/TranslationDisplay';
 import { Loader } from './components/Loader';
-import { TARGET_LANGUAGES } from './constants';
-import type { TranslationResult } from './types';
-import { translateImageContent } from './services/geminiService';
+import { DEFAULT_TARGET_LANGUAGE } from './constants';
+import type { BackgroundFillMode, BlockAppearance, BoundingBox, Glossary, ProviderSettings, Redaction, SourcePage, TextExportFormat, TranslationProgress, TranslationProject, TranslationResult } from './types';
+import { createProvider, loadProviderSettings, saveProviderSettings, translateRegion, translateText } from './services/translationService';
+import { canvasToBlob, downloadBlob, renderTranslatedPage } from './services/renderService';
+import { exportTranslatedPdf } from './services/pdfExportService';
+import { exportJobsAsZip, getBaseFileName, getLanguageSuffix } from './services/batchExportService';
+import { exportProjectFile, importProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFileService';
+import { exportTextDocument, TEXT_EXPORT_FORMATS } from './services/textExportService';
+import {
+  addBlock,
+  deleteBlocks,
+  mergeBlocks,
+  setBlockBoundingBox,
+  splitBlock,
+  updateBlockText,
+  type BlockTextChanges,
+} from './services/blockEditService';
+import { useUndoableState } from './hooks/useUndoableState';
+import { useTranslationQueue } from './hooks/useTranslationQueue';
+import { useProjectHistory } from './hooks/useProjectHistory';
+import { computeBlockAppearances } from './services/inpaintService';
 import { DownloadIcon } from './components/icons/DownloadIcon';
 import { TranslationDetails } from './components/TranslationDetails';
+import { PageNavigator } from './components/PageNavigator';
+import { ProviderSelector } from './components/ProviderSelector';
+import { LayoutToolbar } from './components/LayoutToolbar';
+import { RedactionToolbar } from './components/RedactionToolbar';
+import { FillModeSelector } from './components/FillModeSelector';
+import { JobQueue } from './components/JobQueue';
+import { HistorySidebar } from './components/HistorySidebar';
+import { SourceLanguageInfo } from './components/SourceLanguageInfo';
+import { GlossarySidebar } from './components/GlossarySidebar';
+import { PageWarnings } from './components/PageWarnings';
+import { clearTranslationMemory, forgetTranslation, rememberTranslation } from './services/translationMemory';
+import { detectSensitiveRegions, getRedactionDetection, mergeRedactions } from './services/redactionService';
+import { findGlossaryViolations, getActiveGlossaryEntries, getGlossaryTerms, loadGlossaries, saveGlossaries } from './services/glossaryService';
 
+const NO_PAGES: SourcePage[] = [];
+const NO_REDACTIONS: Redaction[] = [];
 
-// Helper function to get an array of lines for text wrapping
-const getWrappedLines = (
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  maxWidth: number
-): string[] => {
-  if (!text) return [];
-  const words = text.split(' ');
-  const lines: string[] = [];
-  let currentLine = '';
-
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
-    const testLine = currentLine === '' ? word : currentLine + ' ' + word;
-    const { width } = ctx.measureText(testLine);
-
-    if (width < maxWidth || currentLine === '') {
-      currentLine = testLine;
-    } else {
-      lines.push(currentLine);
-      currentLine = word;
-    }
-  }
-  if (currentLine) {
-    lines.push(currentLine);
-  }
-  return lines;
+const describeProgress = (progress: TranslationProgress | null, pageCount: number): string => {
+  if (!progress) return 'Translating...';
+  const verb = progress.stage === 'detecting' ? 'Reading' : 'Translating';
+  return pageCount > 1 ? `${verb} page ${progress.page + 1}/${pageCount}...` : `${verb} text...`;
 };
 
-// Helper function to draw text, fitting it to the box by adjusting font size
-const drawTextAndFit = (
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  width: number,
-  height: number
-) => {
-  let fontSize = Math.floor(height / 2); // Start with a reasonable font size
-
-  while (fontSize >= 8) { // Minimum font size
-    ctx.font = `${fontSize}px sans-serif`;
-    const lineHeight = fontSize * 1.2;
-    const lines = getWrappedLines(ctx, text, width - 4); // small padding
-    const textHeight = lines.length * lineHeight;
-
-    if (textHeight <= height) {
-      // It fits, so we draw it
-      ctx.textBaseline = 'top';
-      ctx.fillStyle = 'white';
-      
-      const startY = y + (height - textHeight) / 2; // Center vertically
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const lineWidth = ctx.measureText(line).width;
-        const startX = x + (width - lineWidth) / 2; // Center horizontally
-        ctx.fillText(line, startX, y + (i * lineHeight));
-      }
-      return; // Done
+export default function App(): React.ReactNode {
+  const { jobs, addFiles, restore, enqueue, retry, cancel, remove, updateResult, setRedactions } = useTranslationQueue();
+  const history = useProjectHistory(jobs);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState<number>(0);
+  const [targetLanguages, setTargetLanguages] = useState<string[]>([DEFAULT_TARGET_LANGUAGE]);
+  // Which of the active job's languages the overlay shows.
+  const [viewLanguage, setViewLanguage] = useState<string | null>(null);
+  // An empty string lets the AI detect the source language of every block.
+  const [sourceLanguage, setSourceLanguage] = useState<string>('');
+  const {
+    value: translationResult,
+    set: setTranslationResult,
+    reset: resetTranslationResult,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<TranslationResult | null>(null);
+  const [isLayoutMode, setIsLayoutMode] = useState<boolean>(false);
+  const [isRedactionMode, setIsRedactionMode] = useState<boolean>(false);
+  const [isDetectingRedactions, setIsDetectingRedactions] = useState<boolean>(false);
+  const [selectedBlocks, setSelectedBlocks] = useState<number[]>([]);
+  const [translateDrawnBoxes, setTranslateDrawnBoxes] = useState<boolean>(true);
+  const [isTranslatingRegion, setIsTranslatingRegion] = useState<boolean>(false);
+  const [fillMode, setFillMode] = useState<BackgroundFillMode>('inpaint');
+  const [blockAppearances, setBlockAppearances] = useState<BlockAppearance[] | null>(null);
+  const [isDownloading, setIsDownloading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [glossaries, setGlossaries] = useState<Glossary[]>(loadGlossaries);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState<boolean>(false);
+
+  const activeJob = jobs.find(job => job.id === activeJobId) ?? null;
+  // Lets async handlers check whether the user switched files while they were waiting.
+  const activeJobIdRef = useRef(activeJobId);
+  activeJobIdRef.current = activeJobId;
+  const activeResults = activeJob?.results ?? [];
+  const activeResult = activeResults.find(result => result.targetLanguage === viewLanguage) ?? activeResults[0] ?? null;
+  const file = activeJob?.file ?? null;
+  const pages = activeJob?.pages ?? NO_PAGES;
+  const isPreparing = activeJob?.status === 'loading';
+  const isLoading = activeJob?.status === 'queued' || activeJob?.status === 'translating';
+  const progress = activeJob?.status === 'translating' ? activeJob.progress ?? null : null;
+  const displayedError = error ?? (activeJob?.status === 'error' ? activeJob.error ?? null : null);
+  const pendingJobs = jobs.filter(job => job.status === 'ready' || job.status === 'error');
+
+  // The editor works on its own undoable copy of the active job's result. Results arriving from
+  // the queue replace it, and edits made in the editor are written back to the job.
+  useEffect(() => {
+    if (activeResult !== translationResult) {
+      resetTranslationResult(activeResult);
     }
+  }, [activeJobId, activeResult]);
 
-    fontSize -= 1; // Doesn't fit, shrink font and retry
-  }
-  
-  // As a fallback if it's impossible to fit, draw at smallest size and let it clip.
-  if (fontSize < 8) {
-      const finalFontSize = 8;
-      ctx.font = `${finalFontSize}px sans-serif`;
-      const lineHeight = finalFontSize * 1.2;
-      const lines = getWrappedLines(ctx, text, width - 4);
-      ctx.textBaseline = 'top';
-      ctx.fillStyle = 'white';
-      ctx.save();
-      ctx.beginPath();
-      ctx.rect(x,y,width,height);
-      ctx.clip();
-      for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          const lineWidth = ctx.measureText(line).width;
-          const startX = x + (width - lineWidth) / 2;
-          ctx.fillText(line, startX, y + (i * lineHeight));
-      }
-      ctx.restore();
-  }
-};
+  useEffect(() => {
+    if (activeJobId && translationResult && translationResult !== activeResult) {
+      updateResult(activeJobId, translationResult);
+    }
+  }, [translationResult]);
 
+  const page = pages[currentPage] ?? null;
+  const pageRedactions = activeJob?.redactions[currentPage] ?? NO_REDACTIONS;
+  const redactionCount = (activeJob?.redactions ?? []).reduce((count, regions) => count + regions.length, 0);
+  const pageTranslation = translationResult?.pages[currentPage] ?? null;
 
-export default function App(): React.ReactNode {
-  const [file, setFile] = useState<File | null>(null);
-  const [fileDataURL, setFileDataURL] = useState<string | null>(null);
-  const [targetLanguage, setTargetLanguage] = useState<string>(TARGET_LANGUAGES[0].value);
-  const [translationResult, setTranslationResult] = useState<TranslationResult | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isDownloading, setIsDownloading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const pageBlocks = pageTranslation?.translationBlocks;
+  // The page is still being translated and some of its blocks have no translation yet.
+  const isPagePending = pageBlocks?.some(block => block.isPending) ?? false;
+  const glossaryEntries = getActiveGlossaryEntries(glossaries);
+  const glossaryTerms = translationResult ? getGlossaryTerms(glossaryEntries, translationResult.targetLanguage) : [];
+  const glossaryViolations = pageBlocks?.map(block => findGlossaryViolations(block, glossaryTerms)) ?? null;
+  const memoryBlockCount = (translationResult?.pages ?? []).reduce(
+    (count, { translationBlocks }) => count + translationBlocks.filter(block => block.memoryMatch?.kind === 'exact').length,
+    0
+  );
+  const glossaryIssueCount = glossaryTerms.length === 0 ? 0 : (translationResult?.pages ?? []).reduce(
+    (count, { translationBlocks }) => count + translationBlocks.filter(block => findGlossaryViolations(block, glossaryTerms).length > 0).length,
+    0
+  );
 
-  const handleFileSelect = (selectedFile: File) => {
-    setFile(selectedFile);
-    setTranslationResult(null);
-    setError(null);
+  useEffect(() => {
+    // Sampling is expensive, so it waits until the page has been translated completely.
+    if (!page || !pageBlocks || isPagePending) {
+      setBlockAppearances(null);
+      return;
+    }
+
+    let isCancelled = false;
+    computeBlockAppearances(page, pageBlocks, fillMode)
+      .then(appearances => {
+        if (!isCancelled) setBlockAppearances(appearances);
+      })
+      .catch(err => console.error("Could not sample block backgrounds:", err));
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setFileDataURL(e.target?.result as string);
+    return () => {
+      isCancelled = true;
     };
-    reader.readAsDataURL(selectedFile);
+  }, [page, pageBlocks, isPagePending, fillMode]);
+
+  const handleSelectJob = (id: string | null) => {
+    setActiveJobId(id);
+    setCurrentPage(0);
+    setError(null);
+    setIsLayoutMode(false);
+    setIsRedactionMode(false);
   };
 
-  const handleTranslate = useCallback(async () => {
-    if (!file || !fileDataURL) {
+  const handleFilesSelect = (files: File[]) => {
+    const ids = addFiles(files);
+    if (!activeJob) {
+      handleSelectJob(ids[0]);
+    }
+  };
+
+  const handleRemoveJob = (id: string) => {
+    remove(id);
+    if (id === activeJobId) {
+      handleSelectJob(jobs.find(job => job.id !== id)?.id ?? null);
+    }
+  };
+
+  const handleOpenProject = (project: TranslationProject) => {
+    if (!jobs.some(job => job.id === project.id)) {
+      history.markSaved(project);
+      restore(project);
+    }
+    handleSelectJob(project.id);
+    setIsHistoryOpen(false);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await history.remove(id);
+      if (jobs.some(job => job.id === id)) {
+        handleRemoveJob(id);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not delete the project.');
+    }
+  };
+
+  const handleExportProject = async (project: TranslationProject) => {
+    try {
+      // The queue holds the newest edits, which may not have been autosaved yet.
+      const queuedJob = jobs.find(job => job.id === project.id);
+      const results = queuedJob && queuedJob.results.length > 0 ? queuedJob.results : project.results;
+      const redactions = queuedJob?.redactions ?? project.redactions;
+      const projectFile = await exportProjectFile({ ...project, targetLanguages: results.map(result => result.targetLanguage), results, redactions });
+      downloadBlob(projectFile, `${project.name.replace(/\.[^.]+$/, '')}${PROJECT_FILE_EXTENSION}`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not export the project.');
+    }
+  };
+
+  const handleImportProject = async (projectFile: File) => {
+    try {
+      const project = await importProjectFile(projectFile);
+      await history.add(project);
+      handleOpenProject(project);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not import the project file.');
+    }
+  };
+
+  const handleClearMemory = async () => {
+    if (!confirm('Forget all reviewed translations in your translation memory?')) return;
+    try {
+      await clearTranslationMemory();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not clear the translation memory.');
+    }
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const handleGlossariesChange = (updated: Glossary[]) => {
+    setGlossaries(updated);
+    saveGlossaries(updated);
+  };
+
+  const handleTranslate = useCallback(() => {
+    const ids = pendingJobs.map(job => job.id);
+    // The active file is translated again even when it is already done, e.g. after changing the language.
+    if (activeJob && !ids.includes(activeJob.id)) {
+      ids.push(activeJob.id);
+    }
+
+    if (ids.length === 0) {
       setError('Please select a file first.');
       return;
     }
 
-    setIsLoading(true);
+    if (targetLanguages.length === 0) {
+      setError('Please choose at least one target language.');
+      return;
+    }
+
     setError(null);
-    setTranslationResult(null);
+    setIsLayoutMode(false);
+    setIsRedactionMode(false);
+    setViewLanguage(targetLanguages[0]);
+    enqueue(ids, targetLanguages, sourceLanguage || null, providerSettings, getActiveGlossaryEntries(glossaries));
+  }, [pendingJobs, activeJob, enqueue, targetLanguages, sourceLanguage, providerSettings, glossaries]);
+
+  const handleBlockChange = (blockIndex: number, changes: BlockTextChanges) => {
+    const block = pageTranslation?.translationBlocks[blockIndex];
+    if (translationResult && block) {
+      const sourceLanguage = translationResult.sourceLanguage ?? block.detectedLanguage;
+      const { targetLanguage } = translationResult;
+      // A corrected original means the pair remembered for the misread text is wrong.
+      const forgotten = changes.originalText !== undefined
+        ? forgetTranslation(block.originalText, block.translatedText, sourceLanguage, targetLanguage)
+        : Promise.resolve();
+      // Reviewed translations go into the translation memory so later runs reuse them. The old
+      // translation of a corrected original was not reviewed against it, so it is not remembered.
+      const { translatedText } = changes;
+      if (translatedText !== undefined) {
+        forgotten.then(() => rememberTranslation(changes.originalText ?? block.originalText, translatedText, sourceLanguage, targetLanguage));
+      }
+    }
+    setTranslationResult(result => result && updateBlockText(result, currentPage, blockIndex, changes));
+  };
+
+  const handleTranslateText = (text: string): Promise<string> => {
+    if (!translationResult) return Promise.resolve(text);
+    return translateText(text, translationResult.targetLanguage, translationResult.sourceLanguage, createProvider(providerSettings), glossaryEntries);
+  };
+
+  const handleBoxChange = (blockIndex: number, boundingBox: BoundingBox) => {
+    setTranslationResult(result => result && setBlockBoundingBox(result, currentPage, blockIndex, boundingBox));
+  };
+
+  const handleBoxDraw = async (boundingBox: BoundingBox) => {
+    if (!page || !translationResult) return;
+    const pageIndex = currentPage;
+    const blockIndex = pageTranslation?.translationBlocks.length ?? 0;
+    const jobId = activeJobId;
+    const { targetLanguage } = translationResult;
+
+    if (!translateDrawnBoxes) {
+      setTranslationResult(result => result && addBlock(result, pageIndex, { originalText: '', translatedText: '', boundingBox }));
+      setSelectedBlocks([blockIndex]);
+      return;
+    }
 
+    setIsTranslatingRegion(true);
     try {
-      const base64String = fileDataURL.split(',')[1];
-      const mimeType = file.type;
-      
-      const result = await translateImageContent(base64String, mimeType, targetLanguage);
-      setTranslationResult(result);
+      const block = await translateRegion(
+        page,
+        boundingBox,
+        translationResult.targetLanguage,
+        translationResult.sourceLanguage,
+        createProvider(providerSettings),
+        glossaryEntries,
+        pageRedactions.map(redaction => redaction.box)
+      );
+      // Drop the block if another file or language was opened in the meantime.
+      if (activeJobIdRef.current !== jobId) return;
+      setTranslationResult(result => result && (result.targetLanguage === targetLanguage ? addBlock(result, pageIndex, block) : result));
     } catch (err) {
       console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred during translation.');
+      setError(err instanceof Error ? err.message : 'Could not translate the selected region.');
     } finally {
-      setIsLoading(false);
+      setIsTranslatingRegion(false);
     }
-  }, [file, fileDataURL, targetLanguage]);
+  };
 
-  const handleDownload = useCallback(() => {
-    if (!fileDataURL || !translationResult || !file) return;
+  const handleRedactionModeChange = (enabled: boolean) => {
+    setIsRedactionMode(enabled);
+    if (enabled) setIsLayoutMode(false);
+  };
 
-    setIsDownloading(true);
+  const handleLayoutModeChange = (enabled: boolean) => {
+    setIsLayoutMode(enabled);
+    if (enabled) setIsRedactionMode(false);
+  };
+
+  const handleRedactionsChange = (redactions: Redaction[]) => {
+    if (activeJobId) setRedactions(activeJobId, currentPage, redactions);
+  };
 
-    const image = new Image();
-    image.crossOrigin = "anonymous";
+  const handleDetectRedactions = async () => {
+    if (!page || !activeJobId) return;
+    const jobId = activeJobId;
+    const pageIndex = currentPage;
 
-    image.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = image.naturalWidth;
-      canvas.height = image.naturalHeight;
-      const ctx = canvas.getContext('2d');
+    setIsDetectingRedactions(true);
+    try {
+      const detected = await detectSensitiveRegions(page, pageBlocks ?? []);
+      const existing = jobs.find(job => job.id === jobId)?.redactions[pageIndex] ?? [];
+      setRedactions(jobId, pageIndex, mergeRedactions(existing, detected));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not detect regions to redact.');
+    } finally {
+      setIsDetectingRedactions(false);
+    }
+  };
+
+  const handleDeleteBlocks = useCallback(() => {
+    setTranslationResult(result => result && deleteBlocks(result, currentPage, selectedBlocks));
+    setSelectedBlocks([]);
+  }, [setTranslationResult, currentPage, selectedBlocks]);
 
-      if (!ctx) {
-        setError('Could not create image context for download.');
-        setIsDownloading(false);
-        return;
+  const handleMergeBlocks = () => {
+    setTranslationResult(result => result && mergeBlocks(result, currentPage, selectedBlocks));
+    setSelectedBlocks([Math.min(...selectedBlocks)]);
+  };
+
+  const handleSplitBlock = () => {
+    setTranslationResult(result => result && splitBlock(result, currentPage, selectedBlocks[0]));
+    setSelectedBlocks([selectedBlocks[0], selectedBlocks[0] + 1]);
+  };
+
+  // Selections refer to block indices on one page, so they are dropped whenever the blocks may have shifted.
+  useEffect(() => {
+    setSelectedBlocks([]);
+  }, [currentPage, isLayoutMode]);
+
+  const handleUndo = useCallback(() => {
+    undo();
+    setSelectedBlocks([]);
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    redo();
+    setSelectedBlocks([]);
+  }, [redo]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo(); else handleUndo();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (isLayoutMode && (e.key === 'Delete' || e.key === 'Backspace') && selectedBlocks.length > 0) {
+        e.preventDefault();
+        handleDeleteBlocks();
       }
-      
-      ctx.drawImage(image, 0, 0);
-
-      translationResult.translationBlocks.forEach(block => {
-        const { boundingBox, translatedText } = block;
-        const x = (boundingBox.x / 100) * canvas.width;
-        const y = (boundingBox.y / 100) * canvas.height;
-        const width = (boundingBox.width / 100) * canvas.width;
-        const height = (boundingBox.height / 100) * canvas.height;
-        
-        if (width < 1 || height < 1) return;
-
-        ctx.fillStyle = '#111827'; // bg-gray-900
-        ctx.fillRect(x, y, width, height);
-
-        drawTextAndFit(ctx, translatedText, x, y, width, height);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo, isLayoutMode, selectedBlocks, handleDeleteBlocks]);
+
+  // Files exported from a multi-language job say which language they are in.
+  const languageSuffix = activeResults.length > 1 && translationResult ? getLanguageSuffix(translationResult.targetLanguage) : '';
+  const baseFileName = file ? getBaseFileName(file) : 'document';
+
+  const handleDownload = useCallback(async () => {
+    if (!page || !pageTranslation || !translationResult) return;
+
+    setIsDownloading(true);
+
+    try {
+      const canvas = await renderTranslatedPage(page, pageTranslation.translationBlocks, {
+        fillMode,
+        targetLanguage: translationResult.targetLanguage,
       });
-      
-      const link = document.createElement('a');
-      const fileName = file.name.substring(0, file.name.lastIndexOf('.'));
-      link.download = `${fileName}-translated.png`;
-      link.href = canvas.toDataURL('image/png');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      const pageSuffix = pages.length > 1 ? `-page${currentPage + 1}` : '';
+      downloadBlob(await canvasToBlob(canvas), `${baseFileName}${pageSuffix}-translated${languageSuffix}.png`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not generate the download.');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [page, pageTranslation, translationResult, fillMode, baseFileName, languageSuffix, pages.length, currentPage]);
+
+  const handleExportPdf = useCallback(async () => {
+    if (pages.length === 0 || !translationResult) return;
+
+    setIsDownloading(true);
 
+    try {
+      const pdf = await exportTranslatedPdf(pages, translationResult, fillMode);
+      downloadBlob(pdf, `${baseFileName}-translated${languageSuffix}.pdf`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not generate the PDF.');
+    } finally {
       setIsDownloading(false);
-    };
-    
-    image.onerror = () => {
-        setError("Could not load the image to generate the download.");
-        setIsDownloading(false);
     }
+  }, [pages, translationResult, fillMode, baseFileName, languageSuffix]);
 
-    image.src = fileDataURL;
+  const handleExportText = useCallback(async (format: TextExportFormat) => {
+    if (!translationResult) return;
 
-  }, [fileDataURL, translationResult, file]);
+    setIsDownloading(true);
+
+    try {
+      const exported = await exportTextDocument(translationResult, format, file?.name ?? baseFileName);
+      const { extension } = TEXT_EXPORT_FORMATS.find(entry => entry.id === format)!;
+      downloadBlob(exported, `${baseFileName}-translated${languageSuffix}.${extension}`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not generate the export.');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [translationResult, file, baseFileName, languageSuffix]);
+
+  const handleDownloadAll = useCallback(async () => {
+    setIsDownloading(true);
+
+    try {
+      const zip = await exportJobsAsZip(jobs, fillMode);
+      downloadBlob(zip, 'tomeus-translations.zip');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not generate the ZIP archive.');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [jobs, fillMode]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-7xl mx-auto">
-        <header className="text-center mb-8">
+        <header className="relative text-center mb-8">
+          <div className="absolute right-0 top-0 flex gap-2">
+            <button
+              onClick={() => setIsGlossaryOpen(true)}
+              className="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg transition-colors"
+            >
+              Glossaries
+            </button>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg transition-colors"
+            >
+              History{history.projects.length > 0 ? ` (${history.projects.length})` : ''}
+            </button>
+          </div>
           <h1 className="text-5xl sm:text-6xl font-bold tracking-tight bg-gradient-to-r from-cyan-400 to-fuchsia-500 text-transparent bg-clip-text">
             Tomeus
           </h1>
@@ -216,24 +511,61 @@ export default function App(): React.ReactNode {
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl shadow-2xl p-6 lg:p-8 border border-gray-700">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
               <div className="lg:col-span-1 space-y-6">
-                <FileUpload onFileSelect={handleFileSelect} />
+                <FileUpload onFilesSelect={handleFilesSelect} />
+
+                <JobQueue
+                  jobs={jobs}
+                  activeJobId={activeJobId}
+                  onSelect={handleSelectJob}
+                  onRetry={retry}
+                  onCancel={cancel}
+                  onRemove={handleRemoveJob}
+                />
                 
                 <LanguageSelector
-                  selectedLanguage={targetLanguage}
-                  onLanguageChange={setTargetLanguage}
+                  id="source-language"
+                  label="Translate From"
+                  emptyOptionLabel="Detect automatically"
+                  selectedLanguage={sourceLanguage}
+                  onLanguageChange={setSourceLanguage}
+                />
+
+                <TargetLanguagesSelector
+                  languages={targetLanguages}
+                  onLanguagesChange={setTargetLanguages}
+                />
+
+                <FillModeSelector
+                  fillMode={fillMode}
+                  onFillModeChange={setFillMode}
+                />
+
+                <ProviderSelector
+                  settings={providerSettings}
+                  onSettingsChange={handleProviderSettingsChange}
                 />
                 
                 <div className="flex flex-col sm:flex-row gap-3">
                     <button
                       onClick={handleTranslate}
-                      disabled={!file || isLoading || isDownloading}
+                      disabled={(pendingJobs.length === 0 && (!activeJob || activeJob.status !== 'done')) || isDownloading}
                       className="w-full flex-grow flex items-center justify-center bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg text-lg transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-cyan-500/50"
                     >
-                      {isLoading ? 'Translating...' : 'Translate'}
+                      {isLoading
+                        ? describeProgress(progress, pages.length)
+                        : (pendingJobs.length > 1 ? `Translate ${pendingJobs.length} Files` : 'Translate')}
                     </button>
+                    {isLoading && activeJob && (
+                      <button
+                        onClick={() => cancel(activeJob.id)}
+                        className="w-full sm:w-auto flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-4 focus:ring-gray-500/50"
+                      >
+                        Cancel
+                      </button>
+                    )}
                     <button
                         onClick={handleDownload}
-                        disabled={!translationResult || isLoading || isDownloading}
+                        disabled={!pageTranslation || isPagePending || isDownloading}
                         className="w-full sm:w-auto flex items-center justify-center bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-green-500/50"
                         aria-label="Download translated image"
                     >
@@ -241,28 +573,150 @@ export default function App(): React.ReactNode {
                         <span className="sm:hidden">{isDownloading ? '...' : 'DL'}</span>
                         <span className="hidden sm:inline">{isDownloading ? 'Processing...' : 'Download'}</span>
                     </button>
+                    <button
+                        onClick={handleExportPdf}
+                        disabled={!translationResult || isLoading || isDownloading}
+                        className="w-full sm:w-auto flex items-center justify-center bg-fuchsia-600 hover:bg-fuchsia-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-fuchsia-500/50"
+                        aria-label="Export translated PDF"
+                    >
+                        <DownloadIcon className="h-5 w-5 sm:mr-2"/>
+                        <span className="sm:hidden">PDF</span>
+                        <span className="hidden sm:inline">Export PDF</span>
+                    </button>
                 </div>
+
+                {(jobs.length > 1 || activeResults.length > 1) && (
+                  <button
+                    onClick={handleDownloadAll}
+                    disabled={!jobs.some(job => job.status === 'done') || isDownloading}
+                    className="w-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    <DownloadIcon className="h-5 w-5 mr-2"/>
+                    {isDownloading ? 'Processing...' : 'Download All (ZIP)'}
+                  </button>
+                )}
               </div>
 
-              <div className="lg:col-span-2 w-full min-h-[400px] bg-gray-900/70 rounded-xl border border-gray-700 flex items-center justify-center p-4">
-                {isLoading && <Loader />}
-                {error && <div className="text-red-400 text-center">{error}</div>}
-                {!isLoading && !error && (
-                   <TranslationDisplay 
-                     originalImage={fileDataURL}
-                     translatedData={translationResult?.translationBlocks ?? null}
-                   />
+              <div className="lg:col-span-2 space-y-3">
+                {history.saveError && <p className="text-sm text-amber-400">{history.saveError}</p>}
+                <LanguageSwitcher
+                  languages={activeResults.map(result => result.targetLanguage)}
+                  selectedLanguage={activeResult?.targetLanguage ?? null}
+                  onSelect={setViewLanguage}
+                />
+                <div className="w-full min-h-[400px] bg-gray-900/70 rounded-xl border border-gray-700 flex items-center justify-center p-4">
+                  {(isPreparing || (isLoading && !pageTranslation)) && <Loader />}
+                  {displayedError && <div className="text-red-400 text-center">{displayedError}</div>}
+                  {!isPreparing && !(isLoading && !pageTranslation) && !displayedError && (
+                     <TranslationDisplay 
+                       originalImage={page?.dataURL ?? null}
+                       translatedData={pageTranslation?.translationBlocks ?? null}
+                       appearances={blockAppearances}
+                       glossaryViolations={glossaryViolations}
+                       targetLanguage={translationResult?.targetLanguage ?? targetLanguages[0] ?? DEFAULT_TARGET_LANGUAGE}
+                       onBlockChange={isLoading ? undefined : handleBlockChange}
+                       onTranslateText={handleTranslateText}
+                       redactionEditing={isRedactionMode && !isLoading ? {
+                         redactions: pageRedactions,
+                         onRedactionsChange: handleRedactionsChange,
+                       } : undefined}
+                       layoutEditing={isLayoutMode && !isLoading ? {
+                         selectedIndices: selectedBlocks,
+                         onSelectionChange: setSelectedBlocks,
+                         onBoxChange: handleBoxChange,
+                         onBoxDraw: handleBoxDraw,
+                       } : undefined}
+                     />
+                  )}
+                </div>
+                {isLoading && activeJob?.notice && (
+                  <p className="text-sm text-yellow-300">{activeJob.notice}</p>
+                )}
+                <PageWarnings warnings={pageTranslation?.warnings} />
+                {translationResult && (
+                  <SourceLanguageInfo result={translationResult} />
+                )}
+                {memoryBlockCount > 0 && (
+                  <p className="text-sm text-gray-400">
+                    {memoryBlockCount === 1 ? '1 block was' : `${memoryBlockCount} blocks were`} filled in from your translation memory.
+                  </p>
+                )}
+                {glossaryIssueCount > 0 && (
+                  <p className="text-sm text-amber-400">
+                    {glossaryIssueCount === 1 ? '1 block does' : `${glossaryIssueCount} blocks do`} not follow your glossaries. They are outlined in amber.
+                  </p>
                 )}
+                {page && !isLoading && (
+                  <RedactionToolbar
+                    isRedactionMode={isRedactionMode}
+                    onRedactionModeChange={handleRedactionModeChange}
+                    pageCount={pageRedactions.length}
+                    totalCount={redactionCount}
+                    detection={getRedactionDetection(pageBlocks ?? [])}
+                    isDetecting={isDetectingRedactions}
+                    onDetect={handleDetectRedactions}
+                    onClear={() => handleRedactionsChange([])}
+                  />
+                )}
+                {translationResult && !isLoading && (
+                  <LayoutToolbar
+                    isLayoutMode={isLayoutMode}
+                    onLayoutModeChange={handleLayoutModeChange}
+                    selectedCount={selectedBlocks.length}
+                    canUndo={canUndo}
+                    canRedo={canRedo}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onDelete={handleDeleteBlocks}
+                    onMerge={handleMergeBlocks}
+                    onSplit={handleSplitBlock}
+                    translateDrawnBoxes={translateDrawnBoxes}
+                    onTranslateDrawnBoxesChange={setTranslateDrawnBoxes}
+                    isTranslatingRegion={isTranslatingRegion}
+                  />
+                )}
+                <PageNavigator
+                  currentPage={currentPage}
+                  pageCount={pages.length}
+                  onPageChange={setCurrentPage}
+                  translatedPages={pages.map((_, index) => Boolean(translationResult?.pages[index]))}
+                />
               </div>
             </div>
           </div>
           
-          {!isLoading && translationResult?.formattedTranslation && (
-            <TranslationDetails formattedTranslation={translationResult.formattedTranslation} />
+          {pageTranslation?.formattedTranslation && (
+            <TranslationDetails
+              formattedTranslation={pageTranslation.formattedTranslation}
+              blocks={pageTranslation.translationBlocks}
+              onExport={isLoading ? undefined : handleExportText}
+              isExporting={isDownloading}
+            />
           )}
 
         </main>
       </div>
+
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        projects={history.projects}
+        activeProjectId={activeJobId}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpen={handleOpenProject}
+        onRename={history.rename}
+        onDuplicate={history.duplicate}
+        onDelete={handleDeleteProject}
+        onExport={handleExportProject}
+        onImport={handleImportProject}
+        onClearMemory={handleClearMemory}
+      />
+
+      <GlossarySidebar
+        isOpen={isGlossaryOpen}
+        glossaries={glossaries}
+        onChange={handleGlossariesChange}
+        onClose={() => setIsGlossaryOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
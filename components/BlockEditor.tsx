@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import type { TranslatedBlock } from '../types';
+import type { BlockTextChanges } from '../services/blockEditService';
+
+interface BlockEditorProps {
+  block: TranslatedBlock;
+  style: React.CSSProperties;
+  onSave: (changes: BlockTextChanges) => void;
+  onCancel: () => void;
+  // When provided, the original text can be translated again without re-analyzing the page.
+  onTranslate?: (originalText: string) => Promise<string>;
+}
+
+const textareaClass = "block w-full bg-gray-900 border border-gray-600 text-white py-1.5 px-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-y";
+
+export const BlockEditor: React.FC<BlockEditorProps> = ({ block, style, onSave, onCancel, onTranslate }) => {
+  const [originalText, setOriginalText] = useState(block.originalText);
+  const [translatedText, setTranslatedText] = useState(block.translatedText);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTranslate = async () => {
+    if (!onTranslate) return;
+    setIsTranslating(true);
+    setError(null);
+    try {
+      setTranslatedText(await onTranslate(originalText));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not translate the text.');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleSave = () => {
+    const changes: BlockTextChanges = {};
+    if (originalText !== block.originalText) changes.originalText = originalText;
+    if (translatedText !== block.translatedText) changes.translatedText = translatedText;
+    onSave(changes);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      handleSave();
+    }
+  };
+
+  return (
+    <div
+      style={style}
+      className="bg-gray-800/95 backdrop-blur-sm border border-cyan-600 rounded-lg p-3 shadow-2xl w-72"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs text-gray-400 font-bold tracking-wider uppercase mb-1">Original</label>
+          <textarea
+            value={originalText}
+            onChange={(e) => setOriginalText(e.target.value)}
+            rows={2}
+            className={textareaClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-cyan-400 font-bold tracking-wider uppercase mb-1">Translation</label>
+          <textarea
+            value={translatedText}
+            onChange={(e) => setTranslatedText(e.target.value)}
+            rows={3}
+            className={textareaClass}
+            autoFocus
+          />
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <div className="flex justify-end gap-2 pt-1">
+          {onTranslate && (
+            <button
+              onClick={handleTranslate}
+              disabled={isTranslating || !originalText.trim()}
+              className="mr-auto px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-sm text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isTranslating ? 'Translating...' : 'Translate again'}
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-sm text-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-500 text-sm font-semibold text-white"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
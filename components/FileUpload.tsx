@@ -3,19 +3,27 @@ import React, { useState, useCallback } from 'react';
 import { UploadIcon } from './icons/UploadIcon';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+const isSupportedFile = (file: File) => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
 
-  const handleFile = (file: File | null) => {
-    if (file && (file.type.startsWith('image/') || file.type === 'application/pdf')) {
-      setFileName(file.name);
-      onFileSelect(file);
-    } else {
-      alert('Please upload a valid image (PNG, JPG, etc.) or PDF file.');
+  const handleFiles = (fileList: FileList) => {
+    const files = Array.from(fileList);
+    const supported = files.filter(isSupportedFile);
+
+    if (supported.length < files.length) {
+      const skipped = files.filter(file => !isSupportedFile(file)).map(file => file.name).join(', ');
+      alert(`Please upload valid images (PNG, JPG, etc.) or PDF files. Skipped: ${skipped}`);
+    }
+
+    if (supported.length > 0) {
+      setFileName(supported.length === 1 ? supported[0].name : `${supported.length} files`);
+      onFilesSelect(supported);
     }
   };
 
@@ -41,14 +49,16 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFile(e.dataTransfer.files[0]);
+      handleFiles(e.dataTransfer.files);
       e.dataTransfer.clearData();
     }
-  }, []);
+  }, [onFilesSelect]);
 
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      handleFile(e.target.files[0]);
+      handleFiles(e.target.files);
+      // Allow selecting the same files again later.
+      e.target.value = '';
     }
   };
 
@@ -67,10 +77,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
           <p className="mt-2 text-sm text-gray-400">
             <span className="font-semibold text-cyan-400">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500">Image or PDF files</p>
+          <p className="text-xs text-gray-500">Image or PDF files, one or many</p>
           {fileName && (
               <p className="mt-2 text-sm text-green-400 truncate max-w-full px-4">
-                  Selected: {fileName}
+                  Added: {fileName}
               </p>
           )}
         </div>
@@ -81,6 +91,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           onChange={onFileChange}
           accept="image/*,application/pdf"
+          multiple
         />
       </div>
     </div>
@@ -0,0 +1,37 @@
+
+import React from 'react';
+import type { BackgroundFillMode } from '../types';
+
+interface FillModeSelectorProps {
+  fillMode: BackgroundFillMode;
+  onFillModeChange: (mode: BackgroundFillMode) => void;
+}
+
+const FILL_MODE_OPTIONS: { value: BackgroundFillMode; label: string }[] = [
+  { value: 'inpaint', label: 'Blend with surroundings' },
+  { value: 'solid', label: 'Matched solid color' },
+  { value: 'dark', label: 'Dark box' },
+];
+
+export const FillModeSelector: React.FC<FillModeSelectorProps> = ({ fillMode, onFillModeChange }) => {
+  return (
+    <div className="space-y-2">
+      <label htmlFor="fill-mode" className="block text-sm font-medium text-gray-300">
+        Text Background
+      </label>
+      <select
+        id="fill-mode"
+        name="fill-mode"
+        value={fillMode}
+        onChange={(e) => onFillModeChange(e.target.value as BackgroundFillMode)}
+        className="block w-full bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm"
+      >
+        {FILL_MODE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+
+import React from 'react';
+import type { Glossary, GlossaryEntry } from '../types';
+import { LANGUAGES } from '../constants';
+import { createGlossary, createGlossaryEntry } from '../services/glossaryService';
+
+interface GlossarySidebarProps {
+  isOpen: boolean;
+  glossaries: Glossary[];
+  onChange: (glossaries: Glossary[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full min-w-0 bg-gray-900 border border-gray-600 text-white py-1 px-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50";
+
+export const GlossarySidebar: React.FC<GlossarySidebarProps> = ({ isOpen, glossaries, onChange, onClose }) => {
+  if (!isOpen) return null;
+
+  const updateGlossary = (id: string, changes: Partial<Glossary>) => {
+    onChange(glossaries.map(glossary => (glossary.id === id ? { ...glossary, ...changes } : glossary)));
+  };
+
+  const updateEntry = (glossary: Glossary, entryId: string, changes: Partial<GlossaryEntry>) => {
+    updateGlossary(glossary.id, {
+      entries: glossary.entries.map(entry => (entry.id === entryId ? { ...entry, ...changes } : entry)),
+    });
+  };
+
+  const handleDelete = (glossary: Glossary) => {
+    if (confirm(`Delete the glossary "${glossary.name}"?`)) {
+      onChange(glossaries.filter(existing => existing.id !== glossary.id));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/40" />
+      <aside
+        className="relative h-full w-full max-w-xl bg-gray-800 border-l border-gray-700 shadow-2xl p-5 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-white">Glossaries</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close glossaries">
+            &times;
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Enabled glossaries are applied to new translations. Blocks that don't follow them are outlined in amber.
+        </p>
+
+        <button
+          onClick={() => onChange([...glossaries, createGlossary(`Glossary ${glossaries.length + 1}`)])}
+          className="w-full mb-4 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          New Glossary
+        </button>
+
+        <datalist id="glossary-languages">
+          {LANGUAGES.map(lang => <option key={lang.value} value={lang.value} />)}
+        </datalist>
+
+        <div className="space-y-4">
+          {glossaries.map(glossary => (
+            <section key={glossary.id} className="rounded-lg bg-gray-900/60 p-3 space-y-3">
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={glossary.isEnabled}
+                  onChange={(e) => updateGlossary(glossary.id, { isEnabled: e.target.checked })}
+                  className="h-4 w-4 accent-cyan-500"
+                  aria-label={`Enable ${glossary.name}`}
+                />
+                <input
+                  value={glossary.name}
+                  onChange={(e) => updateGlossary(glossary.id, { name: e.target.value })}
+                  className={`${inputClass} font-medium`}
+                  aria-label="Glossary name"
+                />
+                <button onClick={() => handleDelete(glossary)} className="text-xs text-gray-400 hover:text-red-400">Delete</button>
+              </div>
+
+              {glossary.entries.length > 0 && (
+                <div className="grid grid-cols-[1fr_1fr_7rem_auto_auto] gap-2 items-center text-xs text-gray-500">
+                  <span>Term</span>
+                  <span>Translation</span>
+                  <span>Language</span>
+                  <span title="Do not translate">Keep</span>
+                  <span />
+                  {glossary.entries.map(entry => (
+                    <React.Fragment key={entry.id}>
+                      <input
+                        value={entry.source}
+                        onChange={(e) => updateEntry(glossary, entry.id, { source: e.target.value })}
+                        className={inputClass}
+                        aria-label="Source term"
+                      />
+                      <input
+                        value={entry.doNotTranslate ? entry.source : entry.target}
+                        onChange={(e) => updateEntry(glossary, entry.id, { target: e.target.value })}
+                        disabled={entry.doNotTranslate}
+                        className={inputClass}
+                        aria-label="Required translation"
+                      />
+                      <input
+                        value={entry.language}
+                        onChange={(e) => updateEntry(glossary, entry.id, { language: e.target.value })}
+                        list="glossary-languages"
+                        placeholder="All"
+                        className={inputClass}
+                        aria-label="Target language"
+                      />
+                      <input
+                        type="checkbox"
+                        checked={entry.doNotTranslate}
+                        onChange={(e) => updateEntry(glossary, entry.id, { doNotTranslate: e.target.checked })}
+                        className="h-4 w-4 accent-cyan-500 justify-self-center"
+                        aria-label="Do not translate"
+                      />
+                      <button
+                        onClick={() => updateGlossary(glossary.id, { entries: glossary.entries.filter(existing => existing.id !== entry.id) })}
+                        className="text-gray-400 hover:text-red-400 text-lg leading-none"
+                        aria-label="Remove term"
+                      >
+                        &times;
+                      </button>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+
+              <button
+                onClick={() => updateGlossary(glossary.id, { entries: [...glossary.entries, createGlossaryEntry()] })}
+                className="text-xs text-gray-400 hover:text-cyan-300"
+              >
+                + Add term
+              </button>
+            </section>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
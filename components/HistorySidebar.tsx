@@ -0,0 +1,150 @@
+
+import React, { useRef, useState } from 'react';
+import type { TranslationProject } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFileService';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  projects: TranslationProject[];
+  activeProjectId: string | null;
+  onClose: () => void;
+  onOpen: (project: TranslationProject) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (project: TranslationProject) => void;
+  onImport: (file: File) => void;
+  onClearMemory: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+const actionClass = "text-xs text-gray-400 hover:text-cyan-300";
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  projects,
+  activeProjectId,
+  onClose,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  onClearMemory,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const importInput = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const startRename = (project: TranslationProject) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (project: TranslationProject) => {
+    if (confirm(`Delete "${project.name}" from your history?`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/40" />
+      <aside
+        className="relative h-full w-full max-w-sm bg-gray-800 border-l border-gray-700 shadow-2xl p-5 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">History</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close history">
+            &times;
+          </button>
+        </div>
+
+        <button
+          onClick={() => importInput.current?.click()}
+          className="w-full mb-4 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          Import Project File
+        </button>
+        <input
+          ref={importInput}
+          type="file"
+          className="hidden"
+          accept={`${PROJECT_FILE_EXTENSION},.zip`}
+          onChange={handleImportChange}
+        />
+
+        {projects.length === 0 && (
+          <p className="text-sm text-gray-500">Finished translations are saved here automatically.</p>
+        )}
+
+        <ul className="space-y-2">
+          {projects.map(project => (
+            <li
+              key={project.id}
+              className={`rounded-lg p-3 ${project.id === activeProjectId ? 'bg-gray-700 ring-1 ring-cyan-500' : 'bg-gray-900/60'}`}
+            >
+              {renamingId === project.id ? (
+                <input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-gray-900 border border-gray-600 text-white py-1 px-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  autoFocus
+                />
+              ) : (
+                <button onClick={() => onOpen(project)} className="block w-full text-left">
+                  <span className="block truncate font-medium text-gray-100">{project.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {project.targetLanguages.join(', ')} &middot; {formatDate(project.updatedAt)}
+                  </span>
+                </button>
+              )}
+              <div className="flex gap-3 mt-2">
+                <button onClick={() => onOpen(project)} className={actionClass}>Open</button>
+                <button onClick={() => startRename(project)} className={actionClass}>Rename</button>
+                <button onClick={() => onDuplicate(project.id)} className={actionClass}>Duplicate</button>
+                <button onClick={() => onExport(project)} className={actionClass}>Export</button>
+                <button onClick={() => handleDelete(project)} className="text-xs text-gray-400 hover:text-red-400">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-6 pt-4 border-t border-gray-700">
+          <p className="text-xs text-gray-500 mb-2">
+            Blocks you correct are remembered and reused when the same text is translated again.
+          </p>
+          <button onClick={onClearMemory} className="text-xs text-gray-400 hover:text-red-400">
+            Clear Translation Memory
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
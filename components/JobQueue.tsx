@@ -0,0 +1,82 @@
+
+import React from 'react';
+import type { JobStatus, TranslationJob } from '../types';
+
+interface JobQueueProps {
+  jobs: TranslationJob[];
+  activeJobId: string | null;
+  onSelect: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  loading: { label: 'Reading', className: 'bg-gray-600 text-gray-200' },
+  ready: { label: 'Ready', className: 'bg-gray-600 text-gray-200' },
+  queued: { label: 'Queued', className: 'bg-yellow-700 text-yellow-100' },
+  translating: { label: 'Translating', className: 'bg-cyan-700 text-cyan-100 animate-pulse' },
+  done: { label: 'Done', className: 'bg-green-700 text-green-100' },
+  error: { label: 'Failed', className: 'bg-red-700 text-red-100' },
+};
+
+export const JobQueue: React.FC<JobQueueProps> = ({ jobs, activeJobId, onSelect, onRetry, onCancel, onRemove }) => {
+  if (jobs.length <= 1) return null;
+
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm font-medium text-gray-300">
+        <span>Files</span>
+        <span className="text-xs text-gray-500">{doneCount} of {jobs.length} translated</span>
+      </div>
+      <ul className="max-h-72 overflow-y-auto space-y-1 pr-1">
+        {jobs.map(job => {
+          const status = STATUS_STYLES[job.status];
+          const progress = job.status === 'translating' && job.pages.length > 1
+            ? ` ${(job.progress?.page ?? 0) + 1}/${job.pages.length}`
+            : '';
+
+          return (
+            <li
+              key={job.id}
+              onClick={() => onSelect(job.id)}
+              className={`flex items-center gap-2 rounded-md px-2 py-1.5 cursor-pointer text-sm ${job.id === activeJobId ? 'bg-gray-700 ring-1 ring-cyan-500' : 'bg-gray-800 hover:bg-gray-700'}`}
+              title={job.error ?? job.file.name}
+            >
+              <span className="flex-grow truncate text-gray-200">{job.file.name}</span>
+              <span className={`shrink-0 rounded px-1.5 py-0.5 text-xs font-semibold ${status.className}`}>
+                {status.label}{progress}
+              </span>
+              {(job.status === 'queued' || job.status === 'translating') && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onCancel(job.id); }}
+                  className="shrink-0 text-xs text-gray-400 hover:text-gray-200"
+                >
+                  Cancel
+                </button>
+              )}
+              {job.status === 'error' && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRetry(job.id); }}
+                  className="shrink-0 text-xs text-cyan-400 hover:text-cyan-300"
+                >
+                  Retry
+                </button>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(job.id); }}
+                disabled={job.status === 'translating'}
+                className="shrink-0 text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={`Remove ${job.file.name}`}
+              >
+                &times;
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,37 +1,180 @@
 
-import React from 'react';
-import { TARGET_LANGUAGES } from '../constants';
+import React, { useEffect, useRef, useState } from 'react';
+import type { Language } from '../types';
+import { findLanguage, getLanguage, loadRecentLanguages, saveRecentLanguage, searchLanguages } from '../services/languageService';
 
 interface LanguageSelectorProps {
   selectedLanguage: string;
   onLanguageChange: (language: string) => void;
+  id?: string;
+  label?: string;
+  // Label of an extra first option with an empty value, e.g. for automatic detection.
+  emptyOptionLabel?: string;
+  // Shown when no language is selected and there is no empty option.
+  placeholder?: string;
 }
 
-export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguage, onLanguageChange }) => {
+interface Option {
+  value: string;
+  label: string;
+  detail?: string;
+}
+
+const toOption = (lang: Language): Option => ({
+  value: lang.value,
+  label: lang.label,
+  detail: lang.nativeName !== lang.label ? `${lang.nativeName} · ${lang.code}` : lang.code,
+});
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
+  selectedLanguage,
+  onLanguageChange,
+  id = 'language',
+  label = 'Translate To',
+  emptyOptionLabel,
+  placeholder,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [recent, setRecent] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${highlighted}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted]);
+
+  const trimmedQuery = query.trim();
+  const options: { heading?: string; option: Option }[] = [];
+  if (emptyOptionLabel !== undefined && !trimmedQuery) {
+    options.push({ option: { value: '', label: emptyOptionLabel } });
+  }
+  if (!trimmedQuery) {
+    recent.forEach((value, index) => options.push({ heading: index === 0 ? 'Recent' : undefined, option: toOption(getLanguage(value)) }));
+  }
+  searchLanguages(trimmedQuery).forEach((lang, index) => options.push({
+    heading: index === 0 && !trimmedQuery ? 'All languages' : undefined,
+    option: toOption(lang),
+  }));
+  // Languages that are not listed can still be used by typing their name.
+  if (trimmedQuery && !findLanguage(trimmedQuery)) {
+    options.push({ option: { value: trimmedQuery, label: `Use "${trimmedQuery}"`, detail: 'Not in the list' } });
+  }
+
+  const open = () => {
+    setRecent(loadRecentLanguages());
+    setQuery('');
+    setHighlighted(0);
+    setIsOpen(true);
+  };
+
+  const select = (value: string) => {
+    if (value) saveRecentLanguage(value);
+    onLanguageChange(value);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => Math.min(index + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const entry = options[highlighted];
+      if (entry) select(entry.option.value);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const selected = selectedLanguage ? getLanguage(selectedLanguage) : null;
+
   return (
-    <div className="space-y-2">
-      <label htmlFor="language" className="block text-sm font-medium text-gray-300">
-        Translate To
+    <div className="space-y-2" ref={containerRef}>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300">
+        {label}
       </label>
       <div className="relative">
-        <select
-          id="language"
-          name="language"
-          value={selectedLanguage}
-          onChange={(e) => onLanguageChange(e.target.value)}
-          className="block w-full appearance-none bg-gray-700 border border-gray-600 text-white py-3 pl-4 pr-10 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-base"
-        >
-          {TARGET_LANGUAGES.map((lang) => (
-            <option key={lang.value} value={lang.value}>
-              {lang.label}
-            </option>
-          ))}
-        </select>
+        {isOpen ? (
+          <input
+            id={id}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search by name or code..."
+            className="block w-full bg-gray-700 border border-gray-600 text-white py-3 pl-4 pr-10 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-base"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls={`${id}-options`}
+            autoFocus
+          />
+        ) : (
+          <button
+            id={id}
+            type="button"
+            onClick={open}
+            className="block w-full text-left bg-gray-700 border border-gray-600 text-white py-3 pl-4 pr-10 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-base"
+            aria-haspopup="listbox"
+          >
+            {selected ? selected.label : (emptyOptionLabel ?? <span className="text-gray-400">{placeholder}</span>)}
+            {selected && selected.nativeName !== selected.label && (
+              <span className="ml-2 text-sm text-gray-400">{selected.nativeName}</span>
+            )}
+          </button>
+        )}
         <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
           <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
             <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 10.94l3.71-3.71a.75.75 0 111.06 1.06l-4.25 4.25a.75.75 0 01-1.06 0L5.23 8.27a.75.75 0 01.02-1.06z" clipRule="evenodd" />
           </svg>
         </div>
+
+        {isOpen && (
+          <ul
+            ref={listRef}
+            id={`${id}-options`}
+            role="listbox"
+            className="absolute z-30 mt-1 w-full max-h-72 overflow-y-auto bg-gray-800 border border-gray-600 rounded-lg shadow-2xl py-1"
+          >
+            {options.length === 0 && <li className="px-4 py-2 text-sm text-gray-500">No languages found</li>}
+            {options.map(({ heading, option }, index) => (
+              <React.Fragment key={`${heading ?? ''}${index}`}>
+                {heading && (
+                  <li className="px-4 pt-2 pb-1 text-xs font-bold uppercase tracking-wider text-gray-500">{heading}</li>
+                )}
+                <li
+                  data-index={index}
+                  role="option"
+                  aria-selected={option.value === selectedLanguage}
+                  onMouseEnter={() => setHighlighted(index)}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    select(option.value);
+                  }}
+                  className={`flex items-baseline justify-between gap-3 px-4 py-2 cursor-pointer text-sm ${index === highlighted ? 'bg-gray-700' : ''} ${option.value === selectedLanguage ? 'text-cyan-300' : 'text-gray-100'}`}
+                >
+                  <span className="truncate">{option.label}</span>
+                  {option.detail && <span className="shrink-0 text-xs text-gray-500">{option.detail}</span>}
+                </li>
+              </React.Fragment>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,30 @@
+
+import React from 'react';
+import { getLanguage } from '../services/languageService';
+
+interface LanguageSwitcherProps {
+  languages: string[];
+  selectedLanguage: string | null;
+  onSelect: (language: string) => void;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ languages, selectedLanguage, onSelect }) => {
+  if (languages.length <= 1) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1" role="tablist" aria-label="Translation language">
+      {languages.map(language => (
+        <button
+          key={language}
+          role="tab"
+          aria-selected={language === selectedLanguage}
+          onClick={() => onSelect(language)}
+          className={`rounded-lg px-3 py-1.5 text-sm font-semibold transition-colors ${language === selectedLanguage ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          title={getLanguage(language).nativeName}
+        >
+          {getLanguage(language).label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+
+import React, { useRef, useState } from 'react';
+import type { BoundingBox, TranslatedBlock } from '../types';
+
+type Handle = 'nw' | 'ne' | 'sw' | 'se';
+
+type DragState =
+  | { kind: 'move'; index: number; start: Point; origin: BoundingBox }
+  | { kind: 'resize'; index: number; handle: Handle; start: Point; origin: BoundingBox }
+  | { kind: 'draw'; start: Point };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutEditorProps {
+  blocks: TranslatedBlock[];
+  selectedIndices: number[];
+  onSelectionChange: (indices: number[]) => void;
+  onBoxChange: (blockIndex: number, boundingBox: BoundingBox) => void;
+  onBoxDraw: (boundingBox: BoundingBox) => void;
+}
+
+// Drawn boxes smaller than this, in percent, are treated as stray clicks.
+const MIN_DRAWN_SIZE = 1;
+
+const HANDLES: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+const boxFromPoints = (a: Point, b: Point): BoundingBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const resizeBox = (origin: BoundingBox, handle: Handle, dx: number, dy: number): BoundingBox => {
+  const left = handle.includes('w') ? origin.x + dx : origin.x;
+  const right = handle.includes('e') ? origin.x + origin.width + dx : origin.x + origin.width;
+  const top = handle.includes('n') ? origin.y + dy : origin.y;
+  const bottom = handle.includes('s') ? origin.y + origin.height + dy : origin.y + origin.height;
+  return boxFromPoints({ x: left, y: top }, { x: right, y: bottom });
+};
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${box.x}%`,
+  top: `${box.y}%`,
+  width: `${box.width}%`,
+  height: `${box.height}%`,
+});
+
+/**
+ * Overlay used in layout mode: blocks can be selected, moved and resized, and new boxes drawn
+ * on empty areas. Geometry is tracked locally while dragging and committed once on release,
+ * so each gesture is a single undo step.
+ */
+export const LayoutEditor: React.FC<LayoutEditorProps> = ({ blocks, selectedIndices, onSelectionChange, onBoxChange, onBoxDraw }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<BoundingBox | null>(null);
+
+  const toPercent = (e: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const beginDrag = (e: React.PointerEvent, state: DragState) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    setDrag(state);
+  };
+
+  const handleBlockPointerDown = (e: React.PointerEvent, index: number) => {
+    if (e.shiftKey) {
+      e.stopPropagation();
+      onSelectionChange(
+        selectedIndices.includes(index)
+          ? selectedIndices.filter(i => i !== index)
+          : [...selectedIndices, index]
+      );
+      return;
+    }
+    if (!selectedIndices.includes(index) || selectedIndices.length > 1) {
+      onSelectionChange([index]);
+    }
+    beginDrag(e, { kind: 'move', index, start: toPercent(e), origin: blocks[index].boundingBox });
+  };
+
+  const handleHandlePointerDown = (e: React.PointerEvent, index: number, handle: Handle) => {
+    beginDrag(e, { kind: 'resize', index, handle, start: toPercent(e), origin: blocks[index].boundingBox });
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    onSelectionChange([]);
+    beginDrag(e, { kind: 'draw', start: toPercent(e) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPercent(e);
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+
+    if (drag.kind === 'move') {
+      setDraftBox({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy });
+    } else if (drag.kind === 'resize') {
+      setDraftBox(resizeBox(drag.origin, drag.handle, dx, dy));
+    } else {
+      setDraftBox(boxFromPoints(drag.start, point));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+
+    if (draftBox) {
+      if (drag.kind === 'draw') {
+        if (draftBox.width >= MIN_DRAWN_SIZE && draftBox.height >= MIN_DRAWN_SIZE) {
+          onBoxDraw(draftBox);
+        }
+      } else {
+        onBoxChange(drag.index, draftBox);
+      }
+    }
+
+    setDrag(null);
+    setDraftBox(null);
+  };
+
+  const draggedIndex = drag && drag.kind !== 'draw' ? drag.index : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 cursor-crosshair touch-none select-none"
+      onPointerDown={handleBackgroundPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { setDrag(null); setDraftBox(null); }}
+    >
+      {blocks.map((block, index) => {
+        const box = index === draggedIndex && draftBox ? draftBox : block.boundingBox;
+        const isSelected = selectedIndices.includes(index);
+
+        return (
+          <div
+            key={index}
+            style={boxStyle(box)}
+            className={`border ${isSelected ? 'border-cyan-400 bg-cyan-400/20' : 'border-fuchsia-400/80 bg-fuchsia-400/10'} cursor-move`}
+            onPointerDown={(e) => handleBlockPointerDown(e, index)}
+            title={block.translatedText}
+          >
+            {isSelected && selectedIndices.length === 1 && HANDLES.map(handle => (
+              <div
+                key={handle}
+                onPointerDown={(e) => handleHandlePointerDown(e, index, handle)}
+                className="absolute w-2.5 h-2.5 bg-cyan-400 border border-gray-900 rounded-sm"
+                style={{
+                  left: handle.includes('w') ? -5 : undefined,
+                  right: handle.includes('e') ? -5 : undefined,
+                  top: handle.includes('n') ? -5 : undefined,
+                  bottom: handle.includes('s') ? -5 : undefined,
+                  cursor: handle === 'nw' || handle === 'se' ? 'nwse-resize' : 'nesw-resize',
+                }}
+              />
+            ))}
+          </div>
+        );
+      })}
+
+      {drag?.kind === 'draw' && draftBox && (
+        <div style={boxStyle(draftBox)} className="border-2 border-dashed border-green-400 bg-green-400/10 pointer-events-none" />
+      )}
+    </div>
+  );
+};
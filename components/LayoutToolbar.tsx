@@ -0,0 +1,69 @@
+
+import React from 'react';
+
+interface LayoutToolbarProps {
+  isLayoutMode: boolean;
+  onLayoutModeChange: (enabled: boolean) => void;
+  selectedCount: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDelete: () => void;
+  onMerge: () => void;
+  onSplit: () => void;
+  translateDrawnBoxes: boolean;
+  onTranslateDrawnBoxesChange: (enabled: boolean) => void;
+  isTranslatingRegion: boolean;
+}
+
+const buttonClass = "px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed text-sm font-medium text-gray-200 transition-colors";
+
+export const LayoutToolbar: React.FC<LayoutToolbarProps> = ({
+  isLayoutMode,
+  onLayoutModeChange,
+  selectedCount,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onDelete,
+  onMerge,
+  onSplit,
+  translateDrawnBoxes,
+  onTranslateDrawnBoxesChange,
+  isTranslatingRegion,
+}) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        onClick={() => onLayoutModeChange(!isLayoutMode)}
+        className={`${buttonClass} ${isLayoutMode ? '!bg-cyan-600 hover:!bg-cyan-500 text-white' : ''}`}
+        aria-pressed={isLayoutMode}
+      >
+        {isLayoutMode ? 'Done Editing Layout' : 'Edit Layout'}
+      </button>
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title="Undo (Ctrl+Z)">Undo</button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title="Redo (Ctrl+Shift+Z)">Redo</button>
+      {isLayoutMode && (
+        <>
+          <button onClick={onDelete} disabled={selectedCount === 0} className={buttonClass} title="Delete (Del)">Delete</button>
+          <button onClick={onMerge} disabled={selectedCount < 2} className={buttonClass}>Merge</button>
+          <button onClick={onSplit} disabled={selectedCount !== 1} className={buttonClass}>Split</button>
+          <label className="flex items-center gap-2 text-sm text-gray-300 ml-1">
+            <input
+              type="checkbox"
+              checked={translateDrawnBoxes}
+              onChange={(e) => onTranslateDrawnBoxesChange(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Translate drawn boxes
+          </label>
+          <span className="text-xs text-gray-500">
+            {isTranslatingRegion ? 'Translating region...' : 'Drag on the page to draw a box. Shift-click to select several.'}
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
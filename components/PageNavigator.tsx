@@ -0,0 +1,49 @@
+
+import React from 'react';
+
+interface PageNavigatorProps {
+  currentPage: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  // Pages that already have a translation get a marker in the page list.
+  translatedPages?: boolean[];
+}
+
+export const PageNavigator: React.FC<PageNavigatorProps> = ({ currentPage, pageCount, onPageChange, translatedPages }) => {
+  if (pageCount <= 1) return null;
+
+  const buttonClass = "px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed text-sm font-medium transition-colors";
+
+  return (
+    <div className="flex items-center justify-center gap-2 text-gray-300">
+      <button
+        onClick={() => onPageChange(currentPage - 1)}
+        disabled={currentPage === 0}
+        className={buttonClass}
+        aria-label="Previous page"
+      >
+        &larr;
+      </button>
+      <select
+        value={currentPage}
+        onChange={(e) => onPageChange(Number(e.target.value))}
+        className="bg-gray-700 border border-gray-600 text-white py-1.5 px-3 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        aria-label="Select page"
+      >
+        {Array.from({ length: pageCount }, (_, index) => (
+          <option key={index} value={index}>
+            Page {index + 1} of {pageCount}{translatedPages?.[index] ? ' ✓' : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => onPageChange(currentPage + 1)}
+        disabled={currentPage >= pageCount - 1}
+        className={buttonClass}
+        aria-label="Next page"
+      >
+        &rarr;
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+
+import React from 'react';
+
+interface PageWarningsProps {
+  warnings: string[] | undefined;
+}
+
+export const PageWarnings: React.FC<PageWarningsProps> = ({ warnings }) => {
+  if (!warnings || warnings.length === 0) return null;
+
+  return (
+    <details className="rounded-lg border border-amber-700/60 bg-amber-900/20 px-3 py-2 text-sm text-amber-200">
+      <summary className="cursor-pointer">
+        {warnings.length === 1 ? '1 problem' : `${warnings.length} problems`} in the AI response for this page were repaired. Check the affected blocks.
+      </summary>
+      <ul className="mt-2 list-disc pl-5 space-y-1 text-xs text-amber-100/90">
+        {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+      </ul>
+    </details>
+  );
+};
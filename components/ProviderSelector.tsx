@@ -0,0 +1,78 @@
+
+import React from 'react';
+import type { ProviderSettings, TranslationProviderId } from '../types';
+
+interface ProviderSelectorProps {
+  settings: ProviderSettings;
+  onSettingsChange: (settings: ProviderSettings) => void;
+}
+
+const PROVIDER_OPTIONS: { value: TranslationProviderId; label: string }[] = [
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'openai-compatible', label: 'OpenAI-compatible server' },
+  { value: 'mock', label: 'Offline mock (no AI)' },
+];
+
+const inputClass = "block w-full bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm";
+
+export const ProviderSelector: React.FC<ProviderSelectorProps> = ({ settings, onSettingsChange }) => {
+  const update = (changes: Partial<ProviderSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="provider" className="block text-sm font-medium text-gray-300">
+        Translation Engine
+      </label>
+      <select
+        id="provider"
+        name="provider"
+        value={settings.providerId}
+        onChange={(e) => update({ providerId: e.target.value as TranslationProviderId })}
+        className={inputClass}
+      >
+        {PROVIDER_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {settings.providerId === 'openai-compatible' && (
+        <div className="space-y-2 pt-1">
+          <input
+            type="url"
+            placeholder="Base URL, e.g. http://localhost:8000/v1"
+            value={settings.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+            className={inputClass}
+            aria-label="Base URL"
+          />
+          <input
+            type="text"
+            placeholder="Model name"
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            className={inputClass}
+            aria-label="Model name"
+          />
+          <input
+            type="password"
+            placeholder="API key (optional)"
+            value={settings.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+            className={inputClass}
+            aria-label="API key"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.rememberApiKey ?? false}
+              onChange={(e) => update({ rememberApiKey: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Remember the key in this browser (stored unencrypted)
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
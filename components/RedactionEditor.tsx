@@ -0,0 +1,106 @@
+
+import React, { useRef, useState } from 'react';
+import type { BoundingBox, Redaction, RedactionSource } from '../types';
+
+export interface RedactionEditorProps {
+  redactions: Redaction[];
+  onRedactionsChange: (redactions: Redaction[]) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Drawn boxes smaller than this, in percent, are treated as stray clicks.
+const MIN_DRAWN_SIZE = 1;
+
+const SOURCE_LABELS: Record<RedactionSource, string> = {
+  manual: 'Drawn by hand',
+  face: 'Face',
+  digits: 'Number',
+  email: 'Email address',
+  mrz: 'Machine-readable zone',
+};
+
+const boxFromPoints = (a: Point, b: Point): BoundingBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${box.x}%`,
+  top: `${box.y}%`,
+  width: `${box.width}%`,
+  height: `${box.height}%`,
+});
+
+/**
+ * Overlay used in redaction mode: regions to hide from the AI are drawn by dragging on the page
+ * and removed by clicking them. They are shown the way they will be sent, as black boxes.
+ */
+export const RedactionEditor: React.FC<RedactionEditorProps> = ({ redactions, onRedactionsChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<Point | null>(null);
+  const [draftBox, setDraftBox] = useState<BoundingBox | null>(null);
+
+  const toPercent = (e: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    containerRef.current?.setPointerCapture(e.pointerId);
+    setStart(toPercent(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (start) setDraftBox(boxFromPoints(start, toPercent(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!start) return;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+    if (draftBox && draftBox.width >= MIN_DRAWN_SIZE && draftBox.height >= MIN_DRAWN_SIZE) {
+      onRedactionsChange([...redactions, { box: draftBox, source: 'manual' }]);
+    }
+    setStart(null);
+    setDraftBox(null);
+  };
+
+  const handleRemove = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    onRedactionsChange(redactions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 cursor-crosshair touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { setStart(null); setDraftBox(null); }}
+    >
+      {redactions.map((redaction, index) => (
+        <div
+          key={index}
+          style={boxStyle(redaction.box)}
+          className="bg-black border border-red-500/80 cursor-pointer hover:bg-black/60"
+          onPointerDown={(e) => handleRemove(e, index)}
+          title={`${SOURCE_LABELS[redaction.source]} · click to remove`}
+        />
+      ))}
+
+      {draftBox && (
+        <div style={boxStyle(draftBox)} className="border-2 border-dashed border-red-400 bg-black/50 pointer-events-none" />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+
+import React from 'react';
+import type { RedactionDetection } from '../services/redactionService';
+
+interface RedactionToolbarProps {
+  isRedactionMode: boolean;
+  onRedactionModeChange: (enabled: boolean) => void;
+  // Regions hidden on the current page and on the whole document.
+  pageCount: number;
+  totalCount: number;
+  detection: RedactionDetection;
+  isDetecting: boolean;
+  onDetect: () => void;
+  onClear: () => void;
+}
+
+const DETECT_TITLES: Record<RedactionDetection, string> = {
+  shapes: 'Find faces, long numbers, email addresses and MRZ lines on this page',
+  text: 'Find long numbers, email addresses and MRZ lines in the text already read from this page',
+  none: 'This browser cannot search a page that has not been read yet',
+};
+
+// Shown while redacting when the browser cannot search the image itself.
+const DETECT_LIMITS: Partial<Record<RedactionDetection, string>> = {
+  text: 'This browser cannot search images, so Detect only checks text already read from this page and cannot find faces.',
+  none: 'This browser cannot search images for personal data. Draw every region to hide by hand.',
+};
+
+const buttonClass = "px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed text-sm font-medium text-gray-200 transition-colors";
+
+export const RedactionToolbar: React.FC<RedactionToolbarProps> = ({
+  isRedactionMode,
+  onRedactionModeChange,
+  pageCount,
+  totalCount,
+  detection,
+  isDetecting,
+  onDetect,
+  onClear,
+}) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        onClick={() => onRedactionModeChange(!isRedactionMode)}
+        className={`${buttonClass} ${isRedactionMode ? '!bg-red-600 hover:!bg-red-500 text-white' : ''}`}
+        aria-pressed={isRedactionMode}
+      >
+        {isRedactionMode ? 'Done Redacting' : `Redact${totalCount > 0 ? ` (${totalCount})` : ''}`}
+      </button>
+      {isRedactionMode && (
+        <>
+          <button
+            onClick={onDetect}
+            disabled={detection === 'none' || isDetecting}
+            className={buttonClass}
+            title={DETECT_TITLES[detection]}
+          >
+            {isDetecting ? 'Detecting...' : 'Detect'}
+          </button>
+          <button onClick={onClear} disabled={pageCount === 0} className={buttonClass}>Clear Page</button>
+          <span className="text-xs text-gray-500">
+            Drag on the page to hide a region from the AI. Click a region to remove it.
+          </span>
+          {DETECT_LIMITS[detection] && (
+            <span className="w-full text-xs text-amber-400">{DETECT_LIMITS[detection]}</span>
+          )}
+        </>
+      )}
+      {!isRedactionMode && totalCount > 0 && (
+        <span className="text-xs text-gray-400">
+          {totalCount === 1 ? '1 region is' : `${totalCount} regions are`} masked before upload and kept as-is on the translation.
+        </span>
+      )}
+    </div>
+  );
+};
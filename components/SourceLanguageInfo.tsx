@@ -0,0 +1,33 @@
+
+import React from 'react';
+import type { TranslationResult } from '../types';
+import { countBlocksInTargetLanguage, summarizeSourceLanguage } from '../services/sourceLanguageService';
+
+interface SourceLanguageInfoProps {
+  result: TranslationResult;
+}
+
+export const SourceLanguageInfo: React.FC<SourceLanguageInfoProps> = ({ result }) => {
+  const summary = summarizeSourceLanguage(result);
+  const untouchedCount = countBlocksInTargetLanguage(result);
+
+  if (!summary && untouchedCount === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+      {summary && (
+        <span>
+          {summary.isPinned ? 'Source language: ' : 'Detected source language: '}
+          <span className="font-semibold text-gray-200">{summary.language}</span>
+          {!summary.isPinned && ` (${Math.round(summary.confidence * 100)}%)`}
+          {summary.otherLanguages.length > 0 && `, also ${summary.otherLanguages.join(', ')}`}
+        </span>
+      )}
+      {untouchedCount > 0 && (
+        <span>
+          {untouchedCount} {untouchedCount === 1 ? 'block is' : 'blocks are'} already in {result.targetLanguage} and left as is
+        </span>
+      )}
+    </div>
+  );
+};
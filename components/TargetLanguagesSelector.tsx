@@ -0,0 +1,53 @@
+
+import React from 'react';
+import { getLanguage } from '../services/languageService';
+import { LanguageSelector } from './LanguageSelector';
+
+interface TargetLanguagesSelectorProps {
+  languages: string[];
+  onLanguagesChange: (languages: string[]) => void;
+}
+
+export const TargetLanguagesSelector: React.FC<TargetLanguagesSelectorProps> = ({ languages, onLanguagesChange }) => {
+  const handleAdd = (language: string) => {
+    if (language && !languages.includes(language)) {
+      onLanguagesChange([...languages, language]);
+    }
+  };
+
+  const handleRemove = (language: string) => {
+    onLanguagesChange(languages.filter(existing => existing !== language));
+  };
+
+  return (
+    <div className="space-y-2">
+      <LanguageSelector
+        id="target-language"
+        label="Translate To"
+        selectedLanguage=""
+        onLanguageChange={handleAdd}
+        placeholder={languages.length === 0 ? 'Choose a language...' : 'Add another language...'}
+      />
+      {languages.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {languages.map(language => (
+            <li
+              key={language}
+              className="flex items-center gap-1 rounded-full bg-gray-700 border border-gray-600 pl-3 pr-1 py-1 text-sm text-gray-100"
+            >
+              {getLanguage(language).label}
+              <button
+                onClick={() => handleRemove(language)}
+                disabled={languages.length === 1}
+                className="rounded-full px-1.5 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={`Remove ${language}`}
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,130 @@
-import React from 'react';
+import React, { useState } from 'react';
+import type { TextExportFormat, TranslatedBlock } from '../types';
+import { TEXT_EXPORT_FORMATS } from '../services/textExportService';
+import { buildDocumentStructure, hasDocumentStructure, type DocumentNode } from '../services/documentStructureService';
 import { ListBulletIcon } from './icons/ListBulletIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
 
 interface TranslationDetailsProps {
   formattedTranslation: string;
+  // Blocks of the page; when they carry roles the page is shown as headings, fields and tables.
+  blocks?: TranslatedBlock[];
+  // Exports the whole document, not just the page shown here.
+  onExport?: (format: TextExportFormat) => void;
+  isExporting?: boolean;
 }
 
-export const TranslationDetails: React.FC<TranslationDetailsProps> = ({ formattedTranslation }) => {
+// The translation with the original beneath it, unless the block was already in the target language.
+const BilingualText: React.FC<{ block: TranslatedBlock; className?: string }> = ({ block, className = '' }) => (
+  <>
+    <span className={`block whitespace-pre-wrap ${className}`}>{block.translatedText || block.originalText}</span>
+    {!block.inTargetLanguage && block.translatedText && block.translatedText !== block.originalText && (
+      <span className="block whitespace-pre-wrap text-sm text-gray-500">{block.originalText}</span>
+    )}
+  </>
+);
+
+const renderNode = (node: DocumentNode, index: number) => {
+  switch (node.kind) {
+    case 'heading':
+      return <h3 key={index} className="text-lg font-bold text-white"><BilingualText block={node.block} /></h3>;
+    case 'caption':
+      return <p key={index} className="text-sm italic text-gray-300"><BilingualText block={node.block} /></p>;
+    case 'figure':
+      return (
+        <p key={index} className="rounded border border-dashed border-gray-600 px-3 py-2 text-sm text-gray-300">
+          <BilingualText block={node.block} />
+        </p>
+      );
+    case 'paragraph':
+      return <p key={index} className="text-gray-200"><BilingualText block={node.block} /></p>;
+    case 'field':
+      return (
+        <div key={index} className="grid grid-cols-[minmax(8rem,1fr)_2fr] gap-x-4 border-b border-gray-700/60 pb-2">
+          <div className="font-semibold text-gray-300"><BilingualText block={node.label} /></div>
+          <div className="text-gray-100 space-y-1">
+            {node.values.length > 0
+              ? node.values.map((value, valueIndex) => <div key={valueIndex}><BilingualText block={value} /></div>)
+              : <span className="text-gray-600">—</span>}
+          </div>
+        </div>
+      );
+    case 'table':
+      return (
+        <div key={index} className="overflow-x-auto">
+          <table className="min-w-full border-collapse text-sm">
+            <tbody>
+              {node.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-800/80 font-semibold' : undefined}>
+                  {row.map((cell, columnIndex) => (
+                    <td key={columnIndex} className="border border-gray-700 px-2 py-1 align-top text-gray-200">
+                      {cell.map((block, blockIndex) => <BilingualText key={blockIndex} block={block} />)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+};
+
+export const TranslationDetails: React.FC<TranslationDetailsProps> = ({ formattedTranslation, blocks, onExport, isExporting = false }) => {
+  const [exportFormat, setExportFormat] = useState<TextExportFormat>('docx');
+  const [showFormattedText, setShowFormattedText] = useState(false);
+  const isStructured = Boolean(blocks && hasDocumentStructure(blocks));
+
   return (
     <div className="mt-8 bg-gray-800/50 backdrop-blur-sm rounded-2xl shadow-2xl p-6 lg:p-8 border border-gray-700 animate-fade-in">
-      <h2 className="text-xl sm:text-2xl font-bold text-white mb-6 flex items-center">
-        <ListBulletIcon className="h-6 w-6 mr-3 text-cyan-400 shrink-0" />
-        Translation Document
-      </h2>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center">
+          <ListBulletIcon className="h-6 w-6 mr-3 text-cyan-400 shrink-0" />
+          Translation Document
+        </h2>
+        {isStructured && (
+          <button
+            onClick={() => setShowFormattedText(value => !value)}
+            className="text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            {showFormattedText ? 'Show document structure' : 'Show formatted text'}
+          </button>
+        )}
+        {onExport && (
+          <div className="flex items-center gap-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as TextExportFormat)}
+              className="bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 text-sm"
+              aria-label="Export format"
+            >
+              {TEXT_EXPORT_FORMATS.map((format) => (
+                <option key={format.id} value={format.id}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onExport(exportFormat)}
+              disabled={isExporting}
+              className="flex items-center bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-3 rounded-lg transition-colors"
+            >
+              <DownloadIcon className="h-4 w-4 mr-2"/>
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        )}
+      </div>
       <div className="max-h-[400px] overflow-y-auto p-4 bg-gray-900/50 rounded-lg border border-gray-700">
-        <pre className="whitespace-pre-wrap font-sans text-gray-200 text-base leading-relaxed">
-          {formattedTranslation}
-        </pre>
+        {isStructured && !showFormattedText ? (
+          <div className="space-y-3 leading-relaxed">
+            {buildDocumentStructure(blocks!).map(renderNode)}
+          </div>
+        ) : (
+          <pre className="whitespace-pre-wrap font-sans text-gray-200 text-base leading-relaxed">
+            {formattedTranslation}
+          </pre>
+        )}
       </div>
        <style>
         {`
@@ -1,22 +1,95 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import type { TranslatedBlock } from '../types';
+import type { BlockAppearance, BoundingBox, GlossaryTerm, TranslatedBlock } from '../types';
+import type { BlockTextChanges } from '../services/blockEditService';
+import { BlockEditor } from './BlockEditor';
+import { LayoutEditor, type LayoutEditorProps } from './LayoutEditor';
+import { RedactionEditor, type RedactionEditorProps } from './RedactionEditor';
+import { detectDirection, ensureFontLoaded, getFontStack, getScriptProfile } from '../services/textLayoutService';
+import { getOrientedBox } from '../services/geometryService';
 
 interface TranslationDisplayProps {
   originalImage: string | null;
   translatedData: TranslatedBlock[] | null;
+  // Sampled colors for each block; blocks fall back to the dark box until these are available.
+  appearances?: BlockAppearance[] | null;
+  // Glossary terms each block fails to render as required; such blocks are highlighted.
+  glossaryViolations?: GlossaryTerm[][] | null;
+  // Language of the translations, used to pick fonts, line breaking and text direction.
+  targetLanguage: string;
+  // When provided, clicking a block opens an inline editor for its texts.
+  onBlockChange?: (blockIndex: number, changes: BlockTextChanges) => void;
+  // Translates a corrected original text for the block editor.
+  onTranslateText?: (text: string) => Promise<string>;
+  // When provided, the overlay switches to box geometry editing instead of showing translations.
+  layoutEditing?: Omit<LayoutEditorProps, 'blocks'>;
+  // When provided, the page is shown without translations and regions to hide from the AI can be drawn.
+  redactionEditing?: RedactionEditorProps;
 }
 
 interface PopoverState {
   block: TranslatedBlock;
+  violations: GlossaryTerm[];
   style: React.CSSProperties;
 }
 
-export const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ originalImage, translatedData }) => {
+// Where a block sits on the overlay: its bounding box, or the rotated rectangle of its quad.
+const getFrameStyle = (block: TranslatedBlock, overlayWidth: number, overlayHeight: number): React.CSSProperties => {
+  if (!block.quad) {
+    const { boundingBox } = block;
+    return {
+      position: 'absolute',
+      left: `${boundingBox.x}%`,
+      top: `${boundingBox.y}%`,
+      width: `${boundingBox.width}%`,
+      height: `${boundingBox.height}%`,
+    };
+  }
+
+  const box = getOrientedBox(block, overlayWidth, overlayHeight);
+  return {
+    position: 'absolute',
+    left: `${box.centerX - box.width / 2}px`,
+    top: `${box.centerY - box.height / 2}px`,
+    width: `${box.width}px`,
+    height: `${box.height}px`,
+    transform: `rotate(${box.rotation}deg)`,
+  };
+};
+
+const getPopoverStyle = (boundingBox: BoundingBox): React.CSSProperties => {
+  const popoverStyle: React.CSSProperties = {
+    position: 'absolute',
+    left: `${boundingBox.x}%`,
+    top: `${boundingBox.y + boundingBox.height}%`,
+    transform: 'translateY(8px)',
+    zIndex: 20,
+  };
+
+  // If the box is in the lower half of the image, place popover above it
+  if (boundingBox.y + boundingBox.height > 70) { // 70% threshold
+      popoverStyle.top = `${boundingBox.y}%`;
+      popoverStyle.transform = 'translateY(-100%) translateY(-8px)';
+  }
+
+  return popoverStyle;
+};
+
+export const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ originalImage, translatedData, appearances, glossaryViolations, targetLanguage, onBlockChange, onTranslateText, layoutEditing, redactionEditing }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const [imageRect, setImageRect] = useState({ top: 0, left: 0, width: 0, height: 0 });
   const [hoveredBlock, setHoveredBlock] = useState<PopoverState | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const profile = getScriptProfile(targetLanguage);
+
+  useEffect(() => {
+    ensureFontLoaded(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    setEditingIndex(null);
+  }, [originalImage]);
 
   useEffect(() => {
     const image = imageRef.current;
@@ -48,30 +121,29 @@ export const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ original
     };
   }, [originalImage]);
   
-  const handleMouseEnter = (block: TranslatedBlock) => {
-    const { boundingBox } = block;
-
-    const popoverStyle: React.CSSProperties = {
-      position: 'absolute',
-      left: `${boundingBox.x}%`,
-      top: `${boundingBox.y + boundingBox.height}%`,
-      transform: 'translateY(8px)',
-      zIndex: 20,
-    };
-
-    // If the box is in the lower half of the image, place popover above it
-    if (boundingBox.y + boundingBox.height > 70) { // 70% threshold
-        popoverStyle.top = `${boundingBox.y}%`;
-        popoverStyle.transform = 'translateY(-100%) translateY(-8px)';
-    }
-
-    setHoveredBlock({ block, style: popoverStyle });
+  const handleMouseEnter = (block: TranslatedBlock, violations: GlossaryTerm[]) => {
+    setHoveredBlock({ block, violations, style: getPopoverStyle(block.boundingBox) });
   };
 
   const handleMouseLeave = () => {
     setHoveredBlock(null);
   };
 
+  const handleBlockClick = (index: number) => {
+    if (!onBlockChange) return;
+    setHoveredBlock(null);
+    setEditingIndex(index);
+  };
+
+  const handleEditorSave = (changes: BlockTextChanges) => {
+    if (editingIndex !== null && Object.keys(changes).length > 0) {
+      onBlockChange?.(editingIndex, changes);
+    }
+    setEditingIndex(null);
+  };
+
+  const editingBlock = editingIndex !== null ? translatedData?.[editingIndex] ?? null : null;
+
 
   if (!originalImage) {
     return (
@@ -90,7 +162,7 @@ export const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ original
         alt="Original document"
         className="max-w-full max-h-full object-contain rounded-lg"
       />
-      {translatedData && imageRect.height > 0 && (
+      {redactionEditing && imageRect.height > 0 && (
         <div
           className="absolute"
           style={{
@@ -100,40 +172,96 @@ export const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ original
             height: `${imageRect.height}px`,
           }}
         >
-          {translatedData.map((block, index) => {
-            const { boundingBox, translatedText } = block;
+          <RedactionEditor {...redactionEditing} />
+        </div>
+      )}
+      {translatedData && !redactionEditing && imageRect.height > 0 && (
+        <div
+          className="absolute"
+          style={{
+            top: `${imageRect.top}px`,
+            left: `${imageRect.left}px`,
+            width: `${imageRect.width}px`,
+            height: `${imageRect.height}px`,
+          }}
+        >
+          {layoutEditing && (
+            <LayoutEditor blocks={translatedData} {...layoutEditing} />
+          )}
+
+          {!layoutEditing && translatedData.map((block, index) => {
+            const { translatedText, textAlign, rotation, quad, writingMode, inTargetLanguage, isPending } = block;
+            const appearance = appearances?.[index];
+            const violations = glossaryViolations?.[index] ?? [];
+            const isVertical = writingMode === 'vertical';
             
-            const style: React.CSSProperties = {
-              position: 'absolute',
-              left: `${boundingBox.x}%`,
-              top: `${boundingBox.y}%`,
-              width: `${boundingBox.width}%`,
-              height: `${boundingBox.height}%`,
+            const style: React.CSSProperties = inTargetLanguage || isPending ? {
+              // Already in the target language, or not translated yet: the original stays visible and is only outlined.
+              ...getFrameStyle(block, imageRect.width, imageRect.height),
+              border: isPending ? '1px dashed rgba(34, 211, 238, 0.8)' : '1px dashed rgba(156, 163, 175, 0.7)', // cyan-400 / gray-400
+              boxSizing: 'border-box',
+              cursor: 'pointer',
+              borderRadius: '2px',
+            } : {
+              ...getFrameStyle(block, imageRect.width, imageRect.height),
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
-              backgroundColor: '#111827', // bg-gray-900
-              color: 'white',
+              backgroundColor: appearance?.backgroundColor ?? '#111827', // bg-gray-900
+              // The inpainted patch covers the bounding box, which doesn't line up with a rotated frame.
+              backgroundImage: appearance?.backgroundImage && !quad ? `url(${appearance.backgroundImage})` : undefined,
+              backgroundSize: '100% 100%',
+              color: appearance?.textColor ?? 'white',
               boxSizing: 'border-box',
               cursor: 'pointer',
               borderRadius: '2px',
+              outline: violations.length > 0 ? '2px solid #f59e0b' : undefined, // amber-500
             };
             
             return (
               <div
                 key={index}
                 style={style}
-                className="group"
-                onMouseEnter={() => handleMouseEnter(block)}
+                className={isPending ? 'group animate-pulse' : 'group'}
+                onMouseEnter={() => handleMouseEnter(block, violations)}
                 onMouseLeave={handleMouseLeave}
+                onClick={() => handleBlockClick(index)}
               >
                 <div className="absolute inset-0 bg-cyan-500 opacity-0 group-hover:opacity-25 transition-opacity duration-200 rounded-[1px]"></div>
-                 <span className="text-xs text-center truncate px-1">{translatedText}</span>
+                 {!inTargetLanguage && !isPending && <span
+                   lang={profile.locale}
+                   dir={detectDirection(translatedText, profile.direction)}
+                   className={isVertical
+                     ? 'h-full text-xs py-1 overflow-hidden max-w-full leading-tight'
+                     : 'w-full text-xs px-1 overflow-hidden max-h-full leading-tight'}
+                   style={{
+                     fontFamily: getFontStack(profile),
+                     textAlign: textAlign ?? 'center',
+                     lineBreak: 'strict',
+                     overflowWrap: 'anywhere',
+                     // Scripts without vertical forms are turned sideways by the browser, as on the export.
+                     writingMode: isVertical ? 'vertical-rl' : undefined,
+                     transform: rotation && !quad ? `rotate(${rotation}deg)` : undefined,
+                   }}
+                 >
+                   {translatedText}
+                 </span>}
               </div>
             );
           })}
           
-          {hoveredBlock && (
+          {editingBlock && !layoutEditing && (
+            <BlockEditor
+              key={editingIndex}
+              block={editingBlock}
+              style={getPopoverStyle(editingBlock.boundingBox)}
+              onSave={handleEditorSave}
+              onCancel={() => setEditingIndex(null)}
+              onTranslate={onTranslateText}
+            />
+          )}
+
+          {hoveredBlock && !editingBlock && !layoutEditing && (
             <div
               style={hoveredBlock.style}
               className="bg-gray-800/90 backdrop-blur-sm border border-gray-600 rounded-lg p-3 shadow-2xl max-w-xs w-max"
@@ -142,12 +270,42 @@ export const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ original
                     <div>
                         <p className="text-xs text-gray-400 font-bold tracking-wider uppercase mb-1">Original</p>
                         <p className="text-sm text-gray-300 italic" style={{wordBreak: 'break-word'}}>{hoveredBlock.block.originalText}</p>
+                        {hoveredBlock.block.detectedLanguage && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            {hoveredBlock.block.detectedLanguage}
+                            {hoveredBlock.block.languageConfidence !== undefined && ` · ${Math.round(hoveredBlock.block.languageConfidence * 100)}%`}
+                            {hoveredBlock.block.inTargetLanguage && ' · already in target language'}
+                          </p>
+                        )}
                     </div>
+                    {hoveredBlock.block.memoryMatch && (
+                      <p className="text-xs text-emerald-400">
+                        {hoveredBlock.block.memoryMatch.kind === 'exact'
+                          ? 'From translation memory'
+                          : `Similar to a remembered translation (${Math.round(hoveredBlock.block.memoryMatch.score * 100)}%)`}
+                      </p>
+                    )}
                     <div className="border-t border-gray-700"></div>
                     <div>
                         <p className="text-xs text-cyan-400 font-bold tracking-wider uppercase mb-1">Translation</p>
-                        <p className="text-sm text-white font-medium" style={{wordBreak: 'break-word'}}>{hoveredBlock.block.translatedText}</p>
+                        <p className="text-sm text-white font-medium" style={{wordBreak: 'break-word'}}>
+                          {hoveredBlock.block.isPending ? <span className="text-gray-500 italic">Translating...</span> : hoveredBlock.block.translatedText}
+                        </p>
                     </div>
+                    {hoveredBlock.violations.length > 0 && (
+                      <div>
+                        <p className="text-xs text-amber-400 font-bold tracking-wider uppercase mb-1">Glossary</p>
+                        <ul className="text-xs text-amber-200 space-y-0.5">
+                          {hoveredBlock.violations.map(term => (
+                            <li key={term.source}>
+                              {term.doNotTranslate
+                                ? `"${term.source}" must be kept as written`
+                                : `"${term.source}" must be translated as "${term.target}"`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                 </div>
             </div>
            )}
@@ -1,16 +1,121 @@
-import type { Language } from './types';
+import type { Language, ScriptId, ScriptProfile } from './types';
 
-export const TARGET_LANGUAGES: Language[] = [
-    { value: 'English', label: 'English' },
-    { value: 'Spanish', label: 'Spanish' },
-    { value: 'French', label: 'French' },
-    { value: 'German', label: 'German' },
-    { value: 'Japanese', label: 'Japanese' },
-    { value: 'Chinese (Simplified)', label: 'Chinese (Simplified)' },
-    { value: 'Korean', label: 'Korean' },
-    { value: 'Italian', label: 'Italian' },
-    { value: 'Portuguese', label: 'Portuguese' },
-    { value: 'Russian', label: 'Russian' },
-    { value: 'Arabic', label: 'Arabic' },
-    { value: 'Hindi', label: 'Hindi' },
-];
\ No newline at end of file
+// Every language offered in the pickers. `value` is the English name sent to the AI and stored with results;
+// `script` selects the fonts and text direction used to render it. Other languages can still be typed in.
+export const LANGUAGES: Language[] = [
+    { value: 'Arabic', label: 'Arabic', nativeName: 'العربية', code: 'ar', script: 'arabic' },
+    { value: 'Bulgarian', label: 'Bulgarian', nativeName: 'Български', code: 'bg', script: 'latin' },
+    { value: 'Catalan', label: 'Catalan', nativeName: 'Català', code: 'ca', script: 'latin' },
+    { value: 'Chinese (Simplified)', label: 'Chinese (Simplified)', nativeName: '简体中文', code: 'zh-Hans', script: 'chinese-simplified' },
+    { value: 'Chinese (Traditional)', label: 'Chinese (Traditional)', nativeName: '繁體中文', code: 'zh-Hant', script: 'chinese-traditional' },
+    { value: 'Croatian', label: 'Croatian', nativeName: 'Hrvatski', code: 'hr', script: 'latin' },
+    { value: 'Czech', label: 'Czech', nativeName: 'Čeština', code: 'cs', script: 'latin' },
+    { value: 'Danish', label: 'Danish', nativeName: 'Dansk', code: 'da', script: 'latin' },
+    { value: 'Dutch', label: 'Dutch', nativeName: 'Nederlands', code: 'nl', script: 'latin' },
+    { value: 'English', label: 'English', nativeName: 'English', code: 'en', script: 'latin' },
+    { value: 'Estonian', label: 'Estonian', nativeName: 'Eesti', code: 'et', script: 'latin' },
+    { value: 'Filipino', label: 'Filipino', nativeName: 'Filipino', code: 'fil', script: 'latin' },
+    { value: 'Finnish', label: 'Finnish', nativeName: 'Suomi', code: 'fi', script: 'latin' },
+    { value: 'French', label: 'French', nativeName: 'Français', code: 'fr', script: 'latin' },
+    { value: 'French (Canada)', label: 'French (Canada)', nativeName: 'Français (Canada)', code: 'fr-CA', script: 'latin' },
+    { value: 'German', label: 'German', nativeName: 'Deutsch', code: 'de', script: 'latin' },
+    { value: 'Greek', label: 'Greek', nativeName: 'Ελληνικά', code: 'el', script: 'latin' },
+    { value: 'Hebrew', label: 'Hebrew', nativeName: 'עברית', code: 'he', script: 'hebrew' },
+    { value: 'Hindi', label: 'Hindi', nativeName: 'हिन्दी', code: 'hi', script: 'devanagari' },
+    { value: 'Hungarian', label: 'Hungarian', nativeName: 'Magyar', code: 'hu', script: 'latin' },
+    { value: 'Indonesian', label: 'Indonesian', nativeName: 'Bahasa Indonesia', code: 'id', script: 'latin' },
+    { value: 'Italian', label: 'Italian', nativeName: 'Italiano', code: 'it', script: 'latin' },
+    { value: 'Japanese', label: 'Japanese', nativeName: '日本語', code: 'ja', script: 'japanese' },
+    { value: 'Korean', label: 'Korean', nativeName: '한국어', code: 'ko', script: 'korean' },
+    { value: 'Latvian', label: 'Latvian', nativeName: 'Latviešu', code: 'lv', script: 'latin' },
+    { value: 'Lithuanian', label: 'Lithuanian', nativeName: 'Lietuvių', code: 'lt', script: 'latin' },
+    { value: 'Malay', label: 'Malay', nativeName: 'Bahasa Melayu', code: 'ms', script: 'latin' },
+    { value: 'Marathi', label: 'Marathi', nativeName: 'मराठी', code: 'mr', script: 'devanagari' },
+    { value: 'Nepali', label: 'Nepali', nativeName: 'नेपाली', code: 'ne', script: 'devanagari' },
+    { value: 'Norwegian (Bokmål)', label: 'Norwegian (Bokmål)', nativeName: 'Norsk bokmål', code: 'nb', script: 'latin' },
+    { value: 'Persian', label: 'Persian', nativeName: 'فارسی', code: 'fa', script: 'arabic' },
+    { value: 'Polish', label: 'Polish', nativeName: 'Polski', code: 'pl', script: 'latin' },
+    { value: 'Portuguese', label: 'Portuguese', nativeName: 'Português', code: 'pt', script: 'latin' },
+    { value: 'Portuguese (Brazil)', label: 'Portuguese (Brazil)', nativeName: 'Português (Brasil)', code: 'pt-BR', script: 'latin' },
+    { value: 'Portuguese (Portugal)', label: 'Portuguese (Portugal)', nativeName: 'Português (Portugal)', code: 'pt-PT', script: 'latin' },
+    { value: 'Romanian', label: 'Romanian', nativeName: 'Română', code: 'ro', script: 'latin' },
+    { value: 'Russian', label: 'Russian', nativeName: 'Русский', code: 'ru', script: 'latin' },
+    { value: 'Serbian', label: 'Serbian', nativeName: 'Српски', code: 'sr', script: 'latin' },
+    { value: 'Slovak', label: 'Slovak', nativeName: 'Slovenčina', code: 'sk', script: 'latin' },
+    { value: 'Slovenian', label: 'Slovenian', nativeName: 'Slovenščina', code: 'sl', script: 'latin' },
+    { value: 'Spanish', label: 'Spanish', nativeName: 'Español', code: 'es', script: 'latin' },
+    { value: 'Spanish (Latin America)', label: 'Spanish (Latin America)', nativeName: 'Español (Latinoamérica)', code: 'es-419', script: 'latin' },
+    { value: 'Swahili', label: 'Swahili', nativeName: 'Kiswahili', code: 'sw', script: 'latin' },
+    { value: 'Swedish', label: 'Swedish', nativeName: 'Svenska', code: 'sv', script: 'latin' },
+    { value: 'Thai', label: 'Thai', nativeName: 'ไทย', code: 'th', script: 'thai' },
+    { value: 'Turkish', label: 'Turkish', nativeName: 'Türkçe', code: 'tr', script: 'latin' },
+    { value: 'Ukrainian', label: 'Ukrainian', nativeName: 'Українська', code: 'uk', script: 'latin' },
+    { value: 'Urdu', label: 'Urdu', nativeName: 'اردو', code: 'ur', script: 'arabic' },
+    { value: 'Vietnamese', label: 'Vietnamese', nativeName: 'Tiếng Việt', code: 'vi', script: 'latin' },
+];
+
+export const DEFAULT_TARGET_LANGUAGE = 'English';
+
+const FONT_CDN = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+// The locale is filled in per language by getScriptProfile.
+export const SCRIPT_PROFILES: Record<ScriptId, Omit<ScriptProfile, 'locale'>> = {
+    'latin': {
+        fontFamily: 'Noto Sans',
+        fontUrl: `${FONT_CDN}/noto-sans@0.4.2/400Regular/NotoSans_400Regular.ttf`,
+        fallbackFonts: 'Inter, "Segoe UI", Roboto, sans-serif',
+        direction: 'ltr',
+    },
+    'japanese': {
+        fontFamily: 'Noto Sans JP',
+        fontUrl: `${FONT_CDN}/noto-sans-jp@0.4.3/400Regular/NotoSansJP_400Regular.ttf`,
+        fallbackFonts: '"Hiragino Sans", "Yu Gothic", Meiryo, sans-serif',
+        direction: 'ltr',
+        verticalText: true,
+    },
+    'chinese-simplified': {
+        fontFamily: 'Noto Sans SC',
+        fontUrl: `${FONT_CDN}/noto-sans-sc@0.4.3/400Regular/NotoSansSC_400Regular.ttf`,
+        fallbackFonts: '"PingFang SC", "Microsoft YaHei", sans-serif',
+        direction: 'ltr',
+        verticalText: true,
+    },
+    'chinese-traditional': {
+        fontFamily: 'Noto Sans TC',
+        fontUrl: `${FONT_CDN}/noto-sans-tc@0.4.3/400Regular/NotoSansTC_400Regular.ttf`,
+        fallbackFonts: '"PingFang TC", "Microsoft JhengHei", sans-serif',
+        direction: 'ltr',
+        verticalText: true,
+    },
+    'korean': {
+        fontFamily: 'Noto Sans KR',
+        fontUrl: `${FONT_CDN}/noto-sans-kr@0.4.3/400Regular/NotoSansKR_400Regular.ttf`,
+        fallbackFonts: '"Apple SD Gothic Neo", "Malgun Gothic", sans-serif',
+        direction: 'ltr',
+        verticalText: true,
+    },
+    'arabic': {
+        fontFamily: 'Noto Sans Arabic',
+        fontUrl: `${FONT_CDN}/noto-sans-arabic@0.4.3/400Regular/NotoSansArabic_400Regular.ttf`,
+        fallbackFonts: '"Geeza Pro", "Segoe UI", Tahoma, sans-serif',
+        direction: 'rtl',
+    },
+    'hebrew': {
+        fontFamily: 'Noto Sans Hebrew',
+        fontUrl: `${FONT_CDN}/noto-sans-hebrew@0.4.1/400Regular/NotoSansHebrew_400Regular.ttf`,
+        fallbackFonts: '"Arial Hebrew", "Segoe UI", Arial, sans-serif',
+        direction: 'rtl',
+    },
+    'devanagari': {
+        fontFamily: 'Noto Sans Devanagari',
+        fontUrl: `${FONT_CDN}/noto-sans-devanagari@0.4.1/400Regular/NotoSansDevanagari_400Regular.ttf`,
+        fallbackFonts: '"Kohinoor Devanagari", "Nirmala UI", Mangal, sans-serif',
+        direction: 'ltr',
+    },
+    'thai': {
+        fontFamily: 'Noto Sans Thai',
+        fontUrl: `${FONT_CDN}/noto-sans-thai@0.4.2/400Regular/NotoSansThai_400Regular.ttf`,
+        fallbackFonts: 'Thonburi, Tahoma, "Leelawadee UI", sans-serif',
+        direction: 'ltr',
+    },
+};
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TranslationJob, TranslationProject } from '../types';
+import { deleteProject, duplicateProject, listProjects, putProject, renameProject, saveProject } from '../services/projectStore';
+
+// Edits are saved once they have settled for this long.
+const AUTOSAVE_DELAY_MS = 800;
+// After a failed save, e.g. when the browser's storage is full, it is tried again this much later.
+const SAVE_RETRY_DELAY_MS = 10000;
+
+// What was last saved of a job, compared by identity to find jobs with unsaved changes.
+type SavedState = Pick<TranslationJob, 'results' | 'redactions'>;
+
+/**
+ * Keeps translated jobs saved in IndexedDB and exposes the saved projects for the history list.
+ * A job is saved whenever its result or redactions change after it has finished translating.
+ * Failed saves are retried, and `saveError` says so until one succeeds.
+ */
+export const useProjectHistory = (jobs: TranslationJob[]) => {
+  const [projects, setProjects] = useState<TranslationProject[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Bumped to run the autosave again after a failure, even if no job has changed since.
+  const [saveRetries, setSaveRetries] = useState(0);
+  const savedState = useRef(new Map<string, SavedState>());
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Could not load translation history:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const unsaved = jobs.filter(job => {
+      const saved = savedState.current.get(job.id);
+      return job.status === 'done' && job.results.length > 0 && (saved?.results !== job.results || saved.redactions !== job.redactions);
+    });
+    if (unsaved.length === 0) {
+      // E.g. the job whose save failed was closed.
+      setSaveError(null);
+      return;
+    }
+
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const timer = setTimeout(async () => {
+      try {
+        for (const job of unsaved) {
+          await saveProject({
+            id: job.id,
+            fileName: job.file.name,
+            file: job.file,
+            targetLanguages: job.results.map(result => result.targetLanguage),
+            results: job.results,
+            redactions: job.redactions,
+          });
+          // Only what was written is marked as saved, so a failed write is attempted again.
+          savedState.current.set(job.id, { results: job.results, redactions: job.redactions });
+        }
+        setSaveError(null);
+      } catch (err) {
+        console.error("Could not save the translation locally:", err);
+        const reason = err instanceof Error ? ` (${err.message})` : '';
+        setSaveError(`Your latest changes could not be saved in this browser${reason}. Saving is retried automatically; export the project to keep a copy.`);
+        retryTimer = setTimeout(() => setSaveRetries(count => count + 1), SAVE_RETRY_DELAY_MS);
+      }
+      await refresh();
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      clearTimeout(retryTimer);
+    };
+  }, [jobs, refresh, saveRetries]);
+
+  // Projects reopened from history are already saved, so they are not written again until edited.
+  const markSaved = useCallback((project: TranslationProject) => {
+    savedState.current.set(project.id, { results: project.results, redactions: project.redactions });
+  }, []);
+
+  const add = useCallback(async (project: TranslationProject) => {
+    await putProject(project);
+    savedState.current.set(project.id, { results: project.results, redactions: project.redactions });
+    await refresh();
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    await renameProject(id, name);
+    await refresh();
+  }, [refresh]);
+
+  const duplicate = useCallback(async (id: string) => {
+    await duplicateProject(id);
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteProject(id);
+    savedState.current.delete(id);
+    await refresh();
+  }, [refresh]);
+
+  return { projects, saveError, markSaved, add, rename, duplicate, remove };
+};
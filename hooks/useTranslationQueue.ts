@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GlossaryEntry, ProviderSettings, Redaction, TranslationJob, TranslationProject, TranslationResult } from '../types';
+import { loadSourcePages } from '../services/documentService';
+import { createProvider, translateDocument } from '../services/translationService';
+import { hashBlob } from '../services/detectionCache';
+import type { ProviderError } from '../services/retryService';
+
+// How many files are loaded or translated at the same time.
+const MAX_CONCURRENT_JOBS = 2;
+// Failed translations are retried automatically this many times before the job is marked as failed.
+const MAX_AUTO_RETRIES = 1;
+const RETRY_DELAY_MS = 2000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeRetry = (error: ProviderError, delayMs: number): string => {
+  const seconds = Math.ceil(delayMs / 1000);
+  return error.status === 429
+    ? `The AI is rate limiting requests. Retrying in ${seconds}s...`
+    : `${error.message} Retrying in ${seconds}s...`;
+};
+
+/**
+ * The queue entry for a saved project, with its translations and redactions. Its pages are
+ * rendered again from the stored file.
+ */
+export const createProjectJob = (project: TranslationProject): TranslationJob => ({
+  id: project.id,
+  file: new File([project.file], project.fileName, { type: project.file.type }),
+  status: 'loading',
+  pages: [],
+  results: project.results,
+  targetLanguages: project.targetLanguages,
+  sourceLanguage: project.results[0]?.sourceLanguage ?? null,
+  providerSettings: null,
+  glossary: [],
+  redactions: project.redactions,
+  attempts: 0,
+});
+
+/**
+ * Holds the batch of uploaded files and works through them with limited concurrency:
+ * files are rasterized as soon as they are added, and translated once queued.
+ */
+export const useTranslationQueue = () => {
+  const [jobs, setJobs] = useState<TranslationJob[]>([]);
+  // Jobs being loaded or translated, with the controller that cancels them.
+  const running = useRef(new Map<string, AbortController>());
+
+  const patchJob = useCallback((id: string, changes: Partial<TranslationJob>) => {
+    setJobs(current => current.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  }, []);
+
+  const runJob = useCallback(async (job: TranslationJob) => {
+    const controller = new AbortController();
+    running.current.set(job.id, controller);
+    // Once a run is cancelled its late responses must not overwrite newer state.
+    const patch = (changes: Partial<TranslationJob>) => {
+      if (!controller.signal.aborted) patchJob(job.id, changes);
+    };
+
+    try {
+      if (job.status === 'loading') {
+        const pages = await loadSourcePages(job.file);
+        // Jobs restored from a saved project already carry their translation.
+        patch({ status: job.results.length > 0 ? 'done' : 'ready', pages });
+        return;
+      }
+
+      const attempts = job.attempts + 1;
+      patch({ status: 'translating', attempts, error: undefined });
+
+      try {
+        // Without a hash (e.g. crypto.subtle is unavailable outside secure contexts) nothing is cached.
+        const fileHash = await hashBlob(job.file).catch(() => undefined);
+        const results = await translateDocument(job.pages, {
+          targetLanguages: job.targetLanguages,
+          sourceLanguage: job.sourceLanguage ?? undefined,
+          provider: createProvider(job.providerSettings!),
+          glossary: job.glossary,
+          fileHash,
+          redactions: job.redactions.map(regions => regions.map(region => region.box)),
+          signal: controller.signal,
+          onRetry: ({ delayMs, error }) => patch({ notice: describeRetry(error, delayMs) }),
+          onProgress: (partial, progress) => patch({ results: partial, progress, notice: undefined }),
+        });
+        patch({ status: 'done', results, progress: undefined, notice: undefined });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error(err);
+        const message = err instanceof Error ? err.message : 'An unknown error occurred during translation.';
+        if (attempts <= MAX_AUTO_RETRIES) {
+          await delay(RETRY_DELAY_MS * attempts);
+          patch({ status: 'queued', error: message, progress: undefined, notice: undefined });
+        } else {
+          patch({ status: 'error', error: message, progress: undefined, notice: undefined });
+        }
+      }
+    } catch (err) {
+      console.error(err);
+      patch({ status: 'error', error: err instanceof Error ? err.message : 'Could not read the selected file.' });
+    } finally {
+      if (running.current.get(job.id) === controller) {
+        running.current.delete(job.id);
+      }
+    }
+  }, [patchJob]);
+
+  // Starts waiting jobs whenever a slot frees up.
+  useEffect(() => {
+    const freeSlots = MAX_CONCURRENT_JOBS - running.current.size;
+    if (freeSlots <= 0) return;
+
+    jobs
+      .filter(job => (job.status === 'loading' || job.status === 'queued') && !running.current.has(job.id))
+      .slice(0, freeSlots)
+      .forEach(runJob);
+  }, [jobs, runJob]);
+
+  const addFiles = useCallback((files: File[]): string[] => {
+    const added: TranslationJob[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      status: 'loading',
+      pages: [],
+      results: [],
+      targetLanguages: [],
+      sourceLanguage: null,
+      providerSettings: null,
+      glossary: [],
+      redactions: [],
+      attempts: 0,
+    }));
+    setJobs(current => [...current, ...added]);
+    return added.map(job => job.id);
+  }, []);
+
+  /**
+   * Adds a saved project back to the queue.
+   */
+  const restore = useCallback((project: TranslationProject) => {
+    const job = createProjectJob(project);
+    setJobs(current => (current.some(existing => existing.id === job.id) ? current : [...current, job]));
+  }, []);
+
+  /**
+   * Queues the given jobs for translation. Jobs that are still loading or already in progress are skipped.
+   */
+  const enqueue = useCallback((
+    ids: string[],
+    targetLanguages: string[],
+    sourceLanguage: string | null,
+    providerSettings: ProviderSettings,
+    glossary: GlossaryEntry[]
+  ) => {
+    setJobs(current => current.map(job => {
+      if (!ids.includes(job.id) || job.pages.length === 0 || !['ready', 'done', 'error'].includes(job.status)) {
+        return job;
+      }
+      return { ...job, status: 'queued', targetLanguages, sourceLanguage, providerSettings, glossary, attempts: 0, results: [], error: undefined };
+    }));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setJobs(current => current.map(job => {
+      if (job.id !== id || job.status !== 'error') return job;
+      // Jobs that failed before their pages were read go back to loading; the rest are translated again.
+      const status = job.pages.length === 0 ? 'loading' : (job.providerSettings ? 'queued' : 'ready');
+      return { ...job, status, attempts: 0, error: undefined };
+    }));
+  }, []);
+
+  /**
+   * Stops a queued or running translation. The job goes back to ready, without partial results.
+   */
+  const cancel = useCallback((id: string) => {
+    running.current.get(id)?.abort();
+    running.current.delete(id);
+    setJobs(current => current.map(job => (job.id === id && (job.status === 'queued' || job.status === 'translating')
+      ? { ...job, status: 'ready', results: [], progress: undefined, notice: undefined, error: undefined }
+      : job)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    running.current.get(id)?.abort();
+    running.current.delete(id);
+    setJobs(current => current.filter(job => job.id !== id));
+  }, []);
+
+  /**
+   * Replaces the job's result for the language of the given result, e.g. after an edit.
+   */
+  const updateResult = useCallback((id: string, result: TranslationResult) => {
+    setJobs(current => current.map(job => (job.id === id
+      ? { ...job, results: job.results.map(existing => (existing.targetLanguage === result.targetLanguage ? result : existing)) }
+      : job)));
+  }, []);
+
+  /**
+   * Replaces the regions masked on one page of a job before it is sent to the AI.
+   */
+  const setRedactions = useCallback((id: string, pageIndex: number, redactions: Redaction[]) => {
+    setJobs(current => current.map(job => {
+      if (job.id !== id) return job;
+      const updated = job.pages.map((_, index) => job.redactions[index] ?? []);
+      updated[pageIndex] = redactions;
+      return { ...job, redactions: updated };
+    }));
+  }, []);
+
+  return { jobs, addFiles, restore, enqueue, retry, cancel, remove, updateResult, setRedactions };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Older entries are dropped beyond this point to bound memory on long editing sessions.
+const MAX_HISTORY = 100;
+
+/**
+ * State with an undo/redo history. `set` records an undoable step, while `reset` replaces
+ * the value and clears the history (used when a fresh result arrives from the AI).
+ */
+export const useUndoableState = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((update: T | ((current: T) => T)) => {
+    setHistory(history => {
+      const { past, present } = history;
+      const next = typeof update === 'function' ? (update as (current: T) => T)(present) : update;
+      if (Object.is(next, present)) return history;
+      return { past: [...past, present].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(({ past, present, future }) => {
+      if (past.length === 0) return { past, present, future };
+      return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(({ past, present, future }) => {
+      if (future.length === 0) return { past, present, future };
+      return { past: [...past, present], present: future[0], future: future.slice(1) };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+import { readdir, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { BackgroundFillMode, TranslationProviderId } from '../types';
+import { findLanguage } from '../services/languageService';
+import { createNodeProvider, isSupportedPath, OUTPUT_FORMATS, translateFile, writeTranslatedFile, type OutputFormat } from './index';
+
+const USAGE = `Usage: tomeus <file or directory>... --to <language> [options]
+
+Translates images and PDFs and writes the results to the output directory.
+
+Options:
+  -t, --to <language>       Target language, by name or code (e.g. "German", "pt-BR").
+                            Repeat or separate with commas for several languages.
+  -s, --from <language>     Source language. Detected per block when omitted.
+  -f, --format <formats>    Comma-separated output formats (default: png,json):
+                            ${OUTPUT_FORMATS.join(', ')}
+  -o, --out <directory>     Output directory (default: ./translated)
+  -r, --recursive           Also translate files in subdirectories.
+  -p, --provider <id>       gemini, openai-compatible or mock. Defaults to TRANSLATION_PROVIDER,
+                            or gemini when GEMINI_API_KEY is set.
+      --base-url <url>      OpenAI-compatible base URL (default: OPENAI_BASE_URL)
+      --model <name>        OpenAI-compatible model (default: OPENAI_MODEL)
+      --fill <mode>         How text is painted over: inpaint, solid or dark (default: inpaint)
+  -h, --help                Show this help.
+
+Exit codes: 0 when every file was translated, 1 when some failed, 2 for invalid usage.`;
+
+const PROVIDER_IDS: TranslationProviderId[] = ['gemini', 'openai-compatible', 'mock'];
+const FILL_MODES: BackgroundFillMode[] = ['inpaint', 'solid', 'dark'];
+
+class UsageError extends Error {}
+
+const splitList = (values: string[]): string[] => values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+
+// Directories contribute the images and PDFs in them, sorted by name.
+const collectFiles = async (paths: string[], recursive: boolean): Promise<string[]> => {
+  const files: string[] = [];
+  for (const path of paths) {
+    const info = await stat(path).catch(() => null);
+    if (!info) throw new UsageError(`"${path}" does not exist.`);
+
+    if (info.isFile()) {
+      if (!isSupportedPath(path)) throw new UsageError(`"${path}" is not an image or PDF.`);
+      files.push(path);
+      continue;
+    }
+
+    const entries = (await readdir(path, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = join(path, entry.name);
+      if (entry.isFile() && isSupportedPath(entry.name)) {
+        files.push(entryPath);
+      } else if (entry.isDirectory() && recursive) {
+        files.push(...await collectFiles([entryPath], recursive));
+      }
+    }
+  }
+  return files;
+};
+
+const readOptions = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      to: { type: 'string', short: 't', multiple: true },
+      from: { type: 'string', short: 's' },
+      format: { type: 'string', short: 'f', multiple: true },
+      out: { type: 'string', short: 'o' },
+      recursive: { type: 'boolean', short: 'r' },
+      provider: { type: 'string', short: 'p' },
+      'base-url': { type: 'string' },
+      model: { type: 'string' },
+      fill: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length === 0) throw new UsageError('No files or directories given.');
+
+  // Known languages are passed on under the name the app uses, so fonts and file names match.
+  const targetLanguages = splitList(values.to ?? []).map(language => findLanguage(language)?.value ?? language);
+  if (targetLanguages.length === 0) throw new UsageError('Choose at least one target language with --to.');
+
+  const formats = splitList(values.format ?? ['png,json']);
+  const unknownFormat = formats.find(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+  if (unknownFormat) throw new UsageError(`Unknown format "${unknownFormat}". Use one of: ${OUTPUT_FORMATS.join(', ')}.`);
+
+  // Empty variables, e.g. `TRANSLATION_PROVIDER=` in a .env file, count as unset.
+  const providerId = values.provider || process.env.TRANSLATION_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : undefined);
+  if (!providerId) throw new UsageError('Set GEMINI_API_KEY, or choose another engine with --provider.');
+  if (!PROVIDER_IDS.includes(providerId as TranslationProviderId)) {
+    throw new UsageError(`Unknown provider "${providerId}". Use one of: ${PROVIDER_IDS.join(', ')}.`);
+  }
+
+  const fillMode = values.fill ?? 'inpaint';
+  if (!FILL_MODES.includes(fillMode as BackgroundFillMode)) {
+    throw new UsageError(`Unknown fill mode "${fillMode}". Use one of: ${FILL_MODES.join(', ')}.`);
+  }
+
+  return {
+    paths: positionals,
+    targetLanguages,
+    sourceLanguage: values.from ? findLanguage(values.from)?.value ?? values.from : undefined,
+    formats: formats as OutputFormat[],
+    outputDir: resolve(values.out ?? 'translated'),
+    recursive: values.recursive ?? false,
+    provider: createNodeProvider({
+      providerId: providerId as TranslationProviderId,
+      baseUrl: values['base-url'] || process.env.OPENAI_BASE_URL,
+      model: values.model || process.env.OPENAI_MODEL,
+      apiKey: process.env.OPENAI_API_KEY,
+    }),
+    fillMode: fillMode as BackgroundFillMode,
+  };
+};
+
+const main = async (): Promise<number> => {
+  let options: ReturnType<typeof readOptions>;
+  let files: string[];
+  try {
+    options = readOptions(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+    files = await collectFiles(options.paths, options.recursive);
+  } catch (error) {
+    console.error(`tomeus: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (files.length === 0) {
+    console.error('tomeus: no images or PDFs found.');
+    return 1;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let failed = 0;
+  for (const [index, path] of files.entries()) {
+    console.error(`[${index + 1}/${files.length}] ${path}`);
+    // Progress is reported for every streamed block; only changes of page or stage are printed.
+    let lastStatus = '';
+    try {
+      const translated = await translateFile(path, {
+        targetLanguages: options.targetLanguages,
+        sourceLanguage: options.sourceLanguage,
+        provider: options.provider,
+        signal: controller.signal,
+        onRetry: ({ delayMs, error }) => console.error(`  ${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s...`),
+        onProgress: ({ page, stage }) => {
+          const status = `  ${stage === 'detecting' ? 'Reading' : 'Translating'} page ${page + 1}...`;
+          if (status !== lastStatus) console.error(status);
+          lastStatus = status;
+        },
+      });
+      const written = await writeTranslatedFile(translated, options.outputDir, options.formats, options.fillMode);
+      written.forEach(output => console.log(output));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.error('tomeus: cancelled.');
+        return 130;
+      }
+      failed++;
+      console.error(`  Failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`tomeus: ${failed} of ${files.length} files could not be translated.`);
+    return 1;
+  }
+  return 0;
+};
+
+main().then(code => {
+  process.exitCode = code;
+}).catch(error => {
+  console.error(`tomeus: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,169 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import type {
+  BackgroundFillMode,
+  BoundingBox,
+  GlossaryEntry,
+  SourcePage,
+  TextExportFormat,
+  TranslationProgress,
+  TranslationProvider,
+  TranslationProviderId,
+  TranslationResult,
+} from '../types';
+import { setCanvasPlatform } from '../services/canvasService';
+import { loadSourcePages } from '../services/documentService';
+import { translateDocument } from '../services/translationService';
+import { geminiProvider } from '../services/geminiService';
+import { createOpenAICompatibleProvider } from '../services/openAICompatibleService';
+import { mockProvider } from '../services/mockTranslationService';
+import { canvasToBlob, renderTranslatedPage } from '../services/renderService';
+import { exportTranslatedPdf } from '../services/pdfExportService';
+import { exportTextDocument, TEXT_EXPORT_FORMATS } from '../services/textExportService';
+import { getBaseFileName, getLanguageSuffix } from '../services/batchExportService';
+import type { RetryNotice } from '../services/retryService';
+import { nodeCanvasPlatform } from './nodePlatform';
+
+/*
+ * The translation pipeline of the app for Node: pages are read, detected, translated and drawn
+ * with the same services the browser uses, with canvases from @napi-rs/canvas.
+ */
+
+setCanvasPlatform(nodeCanvasPlatform);
+
+export type { BackgroundFillMode, GlossaryEntry, SourcePage, TextExportFormat, TranslationProvider, TranslationResult } from '../types';
+export { translateDocument, translateLayout, detectSourcePage } from '../services/translationService';
+export { renderTranslatedPage } from '../services/renderService';
+export { exportTranslatedPdf } from '../services/pdfExportService';
+export { exportTextDocument, TEXT_EXPORT_FORMATS } from '../services/textExportService';
+export { loadSourcePages } from '../services/documentService';
+
+// Everything a file can be written as: a translated image per page, a translated PDF, the
+// results as JSON, or one of the text formats of the app's export menu.
+export type OutputFormat = 'png' | 'pdf' | 'json' | TextExportFormat;
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['png', 'pdf', 'json', ...TEXT_EXPORT_FORMATS.map(format => format.id)];
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+};
+
+export const isSupportedPath = (path: string): boolean => extname(path).toLowerCase() in MIME_TYPES;
+
+export interface ProviderOptions {
+  providerId: TranslationProviderId;
+  // Only used by the OpenAI-compatible provider.
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * Creates a translation engine. Unlike in the app, Gemini is called directly with
+ * GEMINI_API_KEY from the environment, since the key never leaves the machine running Node.
+ */
+export const createNodeProvider = ({ providerId, baseUrl = '', model = '', apiKey = '' }: ProviderOptions): TranslationProvider => {
+  switch (providerId) {
+    case 'gemini':
+      return geminiProvider;
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({ providerId, baseUrl, model, apiKey });
+    case 'mock':
+      return mockProvider;
+  }
+};
+
+export const readSourceFile = async (path: string): Promise<File> => {
+  const type = MIME_TYPES[extname(path).toLowerCase()];
+  if (!type) {
+    throw new Error(`"${path}" is not an image or PDF.`);
+  }
+  return new File([await readFile(path)], basename(path), { type });
+};
+
+export interface TranslateFileOptions {
+  targetLanguages: string[];
+  sourceLanguage?: string;
+  provider: TranslationProvider;
+  glossary?: GlossaryEntry[];
+  // Regions to mask on each page before it is sent to the AI, indexed by page.
+  redactions?: BoundingBox[][];
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void;
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
+export interface TranslatedFile {
+  file: File;
+  pages: SourcePage[];
+  // One result per target language, in the order they were requested.
+  results: TranslationResult[];
+}
+
+/**
+ * Reads an image or PDF from disk and translates every page into each target language.
+ */
+export const translateFile = async (path: string, options: TranslateFileOptions): Promise<TranslatedFile> => {
+  const file = await readSourceFile(path);
+  const pages = await loadSourcePages(file);
+  const { onProgress, ...rest } = options;
+  const results = await translateDocument(pages, {
+    ...rest,
+    useMemory: false,
+    onProgress: onProgress && ((_, progress) => onProgress(progress)),
+  });
+  return { file, pages, results };
+};
+
+const blobToBuffer = async (blob: Blob): Promise<Buffer> => Buffer.from(await blob.arrayBuffer());
+
+/**
+ * Writes a translated file into `outputDir` in the given formats, named as the app names its
+ * downloads, and returns the paths written.
+ */
+export const writeTranslatedFile = async (
+  { file, pages, results }: TranslatedFile,
+  outputDir: string,
+  formats: OutputFormat[],
+  fillMode: BackgroundFillMode = 'inpaint'
+): Promise<string[]> => {
+  await mkdir(outputDir, { recursive: true });
+  const baseName = getBaseFileName(file);
+  const written: string[] = [];
+  const write = async (name: string, data: Buffer | string) => {
+    const path = join(outputDir, name);
+    await writeFile(path, data);
+    written.push(path);
+  };
+
+  for (const result of results) {
+    const { targetLanguage } = result;
+    const languageSuffix = results.length > 1 ? getLanguageSuffix(targetLanguage) : '';
+
+    for (const format of formats) {
+      if (format === 'png') {
+        for (const [index, page] of pages.entries()) {
+          const blocks = result.pages[index]?.translationBlocks ?? [];
+          const canvas = await renderTranslatedPage(page, blocks, { fillMode, targetLanguage });
+          const pageSuffix = pages.length > 1 ? `-page${index + 1}` : '';
+          await write(`${baseName}${pageSuffix}-translated${languageSuffix}.png`, await blobToBuffer(await canvasToBlob(canvas)));
+        }
+      } else if (format === 'pdf') {
+        await write(`${baseName}-translated${languageSuffix}.pdf`, await blobToBuffer(await exportTranslatedPdf(pages, result, fillMode)));
+      } else if (format === 'json') {
+        await write(`${baseName}-translated${languageSuffix}.json`, `${JSON.stringify(result, null, 2)}\n`);
+      } else {
+        const { extension } = TEXT_EXPORT_FORMATS.find(entry => entry.id === format)!;
+        await write(`${baseName}-translated${languageSuffix}.${extension}`, await blobToBuffer(await exportTextDocument(result, format, file.name)));
+      }
+    }
+  }
+
+  return written;
+};
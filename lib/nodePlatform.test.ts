@@ -0,0 +1,57 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { setCanvasPlatform } from '../services/canvasService';
+import { loadSourcePages } from '../services/documentService';
+import { nodeCanvasPlatform } from './nodePlatform';
+
+setCanvasPlatform(nodeCanvasPlatform);
+
+// An APP1 segment whose big-endian TIFF data sets the orientation tag (0x0112) to `orientation`.
+const exifSegment = (orientation: number) => [
+  0xff, 0xe1, 0x00, 0x1e,
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+];
+
+// A 40x20 JPEG, red on the left and blue on the right, tagged with the given orientation.
+const createPhoto = async (orientation: number): Promise<File> => {
+  const canvas = createCanvas(40, 20);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ff0000';
+  ctx.fillRect(0, 0, 20, 20);
+  ctx.fillStyle = '#0000ff';
+  ctx.fillRect(20, 0, 20, 20);
+  const jpeg = await canvas.encode('jpeg', 95);
+  const tagged = new Uint8Array([...jpeg.subarray(0, 2), ...exifSegment(orientation), ...jpeg.subarray(2)]);
+  return new File([tagged], 'photo.jpg', { type: 'image/jpeg' });
+};
+
+const isRed = ([red, , blue]: number[]) => red > 200 && blue < 60;
+
+const readPixel = async (dataURL: string, x: number, y: number) => {
+  const image = await loadImage(dataURL);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return Array.from(ctx.getImageData(x, y, 1, 1).data);
+};
+
+describe('nodeCanvasPlatform', () => {
+  it('turns photos upright according to their EXIF orientation, as browsers do', async () => {
+    const [page] = await loadSourcePages(await createPhoto(6));
+
+    // Orientation 6 is shown turned 90° clockwise, which puts the left half on top.
+    expect([page.width, page.height]).toEqual([20, 40]);
+    expect(isRed(await readPixel(page.dataURL, 10, 5))).toBe(true);
+    expect(isRed(await readPixel(page.dataURL, 10, 35))).toBe(false);
+  });
+
+  it('leaves upright photos as they are', async () => {
+    const [page] = await loadSourcePages(await createPhoto(1));
+
+    expect([page.width, page.height]).toEqual([40, 20]);
+    expect(isRed(await readPixel(page.dataURL, 5, 10))).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { Canvas, createCanvas, GlobalFonts, loadImage } from '@napi-rs/canvas';
+import type { CanvasPlatform } from '../services/canvasService';
+
+type EncodableType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+/**
+ * Canvases, images and fonts for Node, from @napi-rs/canvas. Its canvas implements the parts of
+ * the DOM canvas API the services use, so it is handed to them as one.
+ */
+export const nodeCanvasPlatform: CanvasPlatform = {
+  createCanvas(width, height) {
+    return createCanvas(width, height) as unknown as HTMLCanvasElement;
+  },
+
+  // Like browsers drawing an image element, @napi-rs/canvas turns JPEGs upright by their EXIF
+  // orientation when decoding them, so photos are oriented the same in Node.
+  async loadImage(src) {
+    const image = await loadImage(src);
+    return image as unknown as HTMLImageElement;
+  },
+
+  async loadFont(family, url) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} while downloading ${url}`);
+    }
+    if (!GlobalFonts.register(Buffer.from(await response.arrayBuffer()), family)) {
+      throw new Error(`${url} is not a font file that can be used.`);
+    }
+  },
+
+  async encodeCanvas(canvas, type, quality) {
+    const mimeType: EncodableType = type === 'image/jpeg' || type === 'image/webp' ? type : 'image/png';
+    const nodeCanvas = canvas as unknown as Canvas;
+    // Browsers take quality from 0 to 1, @napi-rs/canvas from 0 to 100.
+    const bytes = mimeType === 'image/png'
+      ? await nodeCanvas.encode('png')
+      : await nodeCanvas.encode(mimeType === 'image/jpeg' ? 'jpeg' : 'webp', quality !== undefined ? Math.round(quality * 100) : undefined);
+    return new Blob([bytes], { type: mimeType });
+  },
+};
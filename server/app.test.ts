@@ -0,0 +1,88 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { TranslationProvider } from '../types';
+import { createTranslationServer } from './app';
+import type { ServerConfig } from './config';
+
+const config: ServerConfig = {
+  port: 0,
+  host: '127.0.0.1',
+  maxRequestBytes: 1024,
+  rateLimitPerMinute: 60,
+  rateLimitBurst: 2,
+  trustProxy: false,
+};
+
+const provider: TranslationProvider = {
+  id: 'gemini',
+  async detectPage() {
+    return { blocks: [], formattedText: '' };
+  },
+  async translateTexts(request) {
+    return { translations: request.texts.map(text => text.toUpperCase()) };
+  },
+};
+
+let server: Server | undefined;
+
+const start = async (isConfigured = true): Promise<string> => {
+  server = createTranslationServer({ config, provider, isConfigured: () => isConfigured });
+  await new Promise<void>(resolve => server!.listen(0, config.host, resolve));
+  return `http://${config.host}:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: string) =>
+  fetch(`${url}/api/translate`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+const translation = JSON.stringify({ texts: ['hallo'], targetLanguage: 'English' });
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+});
+
+describe('translation server', () => {
+  it('streams the translation', async () => {
+    const url = await start();
+
+    const response = await post(url, translation);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(`${JSON.stringify({ result: { translations: ['HALLO'] } })}\n`);
+  });
+
+  it('answers 503 until the provider is configured', async () => {
+    const url = await start(false);
+
+    const response = await post(url, translation);
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ error: { code: 'not_configured', retryable: false } });
+  });
+
+  it('answers 429 with Retry-After once the burst is spent', async () => {
+    const url = await start();
+    await post(url, translation);
+    await post(url, translation);
+
+    const response = await post(url, translation);
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('1');
+    expect(await response.json()).toMatchObject({ error: { code: 'rate_limited', retryable: true, retryAfterSeconds: 1 } });
+  });
+
+  it('answers 413 for bodies over the limit', async () => {
+    const url = await start();
+
+    const response = await post(url, JSON.stringify({ texts: ['x'.repeat(2048)], targetLanguage: 'English' }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ error: { code: 'payload_too_large' } });
+  });
+
+  it('answers 400 for malformed requests', async () => {
+    const url = await start();
+
+    const response = await post(url, JSON.stringify({ texts: 'hallo' }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'invalid_request', message: '"texts" must be an array of strings.' } });
+  });
+});
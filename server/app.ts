@@ -0,0 +1,89 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { TranslationProvider } from '../types';
+import type { ServerConfig } from './config';
+import { createRateLimiter } from './rateLimiter';
+import { handleDetect, handleTranslate } from './handlers';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+
+export interface TranslationServerOptions {
+  config: ServerConfig;
+  provider: TranslationProvider;
+  // Whether the provider has its API key. Until it does, translation requests are refused.
+  isConfigured: () => boolean;
+}
+
+const ROUTES: Record<string, typeof handleDetect> = {
+  '/api/detect': handleDetect,
+  '/api/translate': handleTranslate,
+};
+
+/**
+ * Creates the translation server without starting it. Its rate limiter is disposed of when the
+ * server closes.
+ */
+export const createTranslationServer = ({ config, provider, isConfigured }: TranslationServerOptions): Server => {
+  const rateLimiter = createRateLimiter(config.rateLimitPerMinute, config.rateLimitBurst);
+
+  const getClientId = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (config.trustProxy && typeof forwarded === 'string') {
+      return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === '/api/health') {
+      sendJson(res, 200, { ok: true, configured: isConfigured() });
+      return;
+    }
+
+    const handler = ROUTES[path];
+    if (!handler) {
+      throw new HttpError(404, 'not_found', `There is no endpoint at ${path}.`);
+    }
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'method_not_allowed', `${path} only accepts POST requests.`);
+    }
+    if (!isConfigured()) {
+      throw new HttpError(503, 'not_configured', 'GEMINI_API_KEY is not set on the translation server.');
+    }
+
+    const waitMs = rateLimiter.take(getClientId(req));
+    if (waitMs > 0) {
+      const seconds = Math.ceil(waitMs / 1000);
+      throw new HttpError(429, 'rate_limited', `Too many requests. Try again in ${seconds}s.`, seconds);
+    }
+
+    const body = await readJsonBody(req, config.maxRequestBytes);
+
+    // A client that disconnects, e.g. because the user cancelled, stops the call to the AI as well.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    await handler(provider, body, res, controller.signal);
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (res.destroyed) return;
+      sendError(res, error);
+    });
+  });
+  server.on('close', () => rateLimiter.dispose());
+  return server;
+};
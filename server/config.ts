@@ -0,0 +1,34 @@
+export interface ServerConfig {
+  port: number;
+  host: string;
+  // Requests with a larger body are refused before they are read completely.
+  maxRequestBytes: number;
+  // Requests each client may make per minute, and how many it may send in a burst.
+  rateLimitPerMinute: number;
+  rateLimitBurst: number;
+  // Identify clients by the first X-Forwarded-For address. Only enable behind a reverse proxy
+  // that sets the header, since clients can send it themselves.
+  trustProxy: boolean;
+  // Origin allowed to call the API from another host, e.g. when the frontend is served elsewhere.
+  allowedOrigin?: string;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}".`);
+  }
+  return parsed;
+};
+
+export const readServerConfig = (): ServerConfig => ({
+  port: readNumber('TRANSLATION_SERVER_PORT', 8787),
+  host: process.env.TRANSLATION_SERVER_HOST || '127.0.0.1',
+  maxRequestBytes: readNumber('MAX_REQUEST_MB', 15) * 1024 * 1024,
+  rateLimitPerMinute: readNumber('RATE_LIMIT_PER_MINUTE', 60),
+  rateLimitBurst: readNumber('RATE_LIMIT_BURST', 20),
+  trustProxy: process.env.TRUST_PROXY === '1' || process.env.TRUST_PROXY === 'true',
+  allowedOrigin: process.env.ALLOWED_ORIGIN || undefined,
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseDetectionRequest, parseTextTranslationRequest } from './handlers';
+
+const invalidRequest = { status: 400, code: 'invalid_request' };
+
+describe('parseDetectionRequest', () => {
+  it('reads a page image', () => {
+    expect(parseDetectionRequest({ base64ImageData: 'AAAA', mimeType: 'image/png', sourceLanguage: '' })).toEqual({
+      base64ImageData: 'AAAA',
+      mimeType: 'image/png',
+      sourceLanguage: undefined,
+    });
+  });
+
+  it('refuses missing images and unsupported types', () => {
+    expect(() => parseDetectionRequest({ mimeType: 'image/png' })).toThrow(expect.objectContaining(invalidRequest));
+    expect(() => parseDetectionRequest({ base64ImageData: 'AAAA', mimeType: 'image/gif' })).toThrow(expect.objectContaining(invalidRequest));
+    expect(() => parseDetectionRequest(['AAAA'])).toThrow(expect.objectContaining(invalidRequest));
+  });
+});
+
+describe('parseTextTranslationRequest', () => {
+  it('reads texts with a glossary and references', () => {
+    const body = {
+      texts: ['Rechnung'],
+      targetLanguage: 'English',
+      glossary: [{ source: 'Rechnung', target: 'Invoice' }],
+      references: [{ source: 'Summe', translation: 'Total' }],
+    };
+
+    expect(parseTextTranslationRequest(body)).toEqual({
+      ...body,
+      sourceLanguage: undefined,
+      formattedText: undefined,
+    });
+  });
+
+  it('refuses malformed fields', () => {
+    const valid = { texts: ['Rechnung'], targetLanguage: 'English' };
+
+    expect(() => parseTextTranslationRequest({ ...valid, texts: 'Rechnung' })).toThrow(expect.objectContaining(invalidRequest));
+    expect(() => parseTextTranslationRequest({ ...valid, texts: Array(501).fill('x') })).toThrow(expect.objectContaining(invalidRequest));
+    expect(() => parseTextTranslationRequest({ texts: ['Rechnung'] })).toThrow(expect.objectContaining(invalidRequest));
+    expect(() => parseTextTranslationRequest({ ...valid, glossary: [{ source: 'Rechnung' }] })).toThrow(expect.objectContaining(invalidRequest));
+    expect(() => parseTextTranslationRequest({ ...valid, references: 'none' })).toThrow(expect.objectContaining(invalidRequest));
+  });
+});
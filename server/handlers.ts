@@ -0,0 +1,104 @@
+import type { ServerResponse } from 'node:http';
+import type { DetectionRequest, GlossaryTerm, TextTranslationRequest, TranslationProvider } from '../types';
+import { HttpError } from './http';
+
+const IMAGE_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+const MAX_TEXTS = 500;
+
+type Payload = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Payload => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (message: string) => new HttpError(400, 'invalid_request', message);
+
+const readString = (payload: Payload, field: string, required: boolean): string | undefined => {
+  const value = payload[field];
+  if (value === undefined || value === null || value === '') {
+    if (required) throw invalid(`"${field}" is required.`);
+    return undefined;
+  }
+  if (typeof value !== 'string') throw invalid(`"${field}" must be a string.`);
+  return value;
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const parseDetectionRequest = (body: unknown): Omit<DetectionRequest, 'signal' | 'onPartial'> => {
+  if (!isObject(body)) throw invalid('The request body must be a JSON object.');
+  const mimeType = readString(body, 'mimeType', true)!;
+  if (!IMAGE_MIME_TYPES.has(mimeType)) throw invalid(`Images of type "${mimeType}" are not supported.`);
+  return {
+    base64ImageData: readString(body, 'base64ImageData', true)!,
+    mimeType,
+    sourceLanguage: readString(body, 'sourceLanguage', false),
+  };
+};
+
+export const parseTextTranslationRequest = (body: unknown): Omit<TextTranslationRequest, 'signal' | 'onPartial'> => {
+  if (!isObject(body)) throw invalid('The request body must be a JSON object.');
+  const { texts, glossary, references } = body;
+  if (!isStringArray(texts)) throw invalid('"texts" must be an array of strings.');
+  if (texts.length > MAX_TEXTS) throw invalid(`At most ${MAX_TEXTS} texts can be translated at once.`);
+
+  if (glossary !== undefined && !(Array.isArray(glossary) && glossary.every(term =>
+    isObject(term) && typeof term.source === 'string' && typeof term.target === 'string'))) {
+    throw invalid('"glossary" must be an array of terms with "source" and "target".');
+  }
+  if (references !== undefined && !(Array.isArray(references) && references.every(reference =>
+    isObject(reference) && typeof reference.source === 'string' && typeof reference.translation === 'string'))) {
+    throw invalid('"references" must be an array of objects with "source" and "translation".');
+  }
+
+  return {
+    texts,
+    targetLanguage: readString(body, 'targetLanguage', true)!,
+    sourceLanguage: readString(body, 'sourceLanguage', false),
+    formattedText: readString(body, 'formattedText', false),
+    glossary: glossary as GlossaryTerm[] | undefined,
+    references: references as { source: string; translation: string }[] | undefined,
+  };
+};
+
+// Starts a response of newline-delimited JSON. Each line is one object: `{ "partial": ... }`
+// while the answer streams in, then `{ "result": ... }` or `{ "error": ... }`.
+const startStream = (res: ServerResponse) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-store',
+    // Stops reverse proxies such as nginx from holding back the partial lines.
+    'X-Accel-Buffering': 'no',
+  });
+  return (line: unknown) => res.write(`${JSON.stringify(line)}\n`);
+};
+
+export const handleDetect = async (provider: TranslationProvider, body: unknown, res: ServerResponse, signal: AbortSignal) => {
+  const request = parseDetectionRequest(body);
+  let send: ((line: unknown) => void) | null = null;
+  const layout = await provider.detectPage({
+    ...request,
+    signal,
+    onPartial: blocks => {
+      send ??= startStream(res);
+      send({ partial: blocks });
+    },
+  });
+  send ??= startStream(res);
+  send({ result: layout });
+  res.end();
+};
+
+export const handleTranslate = async (provider: TranslationProvider, body: unknown, res: ServerResponse, signal: AbortSignal) => {
+  const request = parseTextTranslationRequest(body);
+  let send: ((line: unknown) => void) | null = null;
+  const response = await provider.translateTexts({
+    ...request,
+    signal,
+    onPartial: translations => {
+      send ??= startStream(res);
+      send({ partial: translations });
+    },
+  });
+  send ??= startStream(res);
+  send({ result: response });
+  res.end();
+};
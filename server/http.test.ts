@@ -0,0 +1,77 @@
+import type { IncomingMessage } from 'node:http';
+import { Readable } from 'node:stream';
+import { describe, expect, it, vi } from 'vitest';
+import { ProviderError } from '../services/retryService';
+import { HttpError, readJsonBody, toServerError } from './http';
+
+// A request whose body arrives in the given chunks.
+const createRequest = (chunks: string[], headers: Record<string, string>): IncomingMessage =>
+  Object.assign(Readable.from(chunks.map(chunk => Buffer.from(chunk))), { headers }) as unknown as IncomingMessage;
+
+describe('readJsonBody', () => {
+  it('parses a JSON body', async () => {
+    const req = createRequest(['{"texts":', '["Hallo"]}'], { 'content-type': 'application/json' });
+
+    expect(await readJsonBody(req, 1024)).toEqual({ texts: ['Hallo'] });
+  });
+
+  it('refuses a body announced as too large before reading it', async () => {
+    const req = createRequest([], { 'content-type': 'application/json', 'content-length': '2048' });
+
+    await expect(readJsonBody(req, 1024)).rejects.toMatchObject({ status: 413, code: 'payload_too_large' });
+  });
+
+  it('refuses a body that grows too large while streaming', async () => {
+    const req = createRequest(['"', 'x'.repeat(1024), '"'], { 'content-type': 'application/json' });
+
+    await expect(readJsonBody(req, 1024)).rejects.toMatchObject({ status: 413, code: 'payload_too_large' });
+  });
+
+  it('refuses bodies that are not JSON', async () => {
+    const plain = createRequest(['hello'], { 'content-type': 'text/plain' });
+    const malformed = createRequest(['{"texts":'], { 'content-type': 'application/json' });
+
+    await expect(readJsonBody(plain, 1024)).rejects.toMatchObject({ status: 400, code: 'invalid_request' });
+    await expect(readJsonBody(malformed, 1024)).rejects.toMatchObject({ status: 400, code: 'invalid_request' });
+  });
+});
+
+describe('toServerError', () => {
+  it('keeps the status and code of HTTP errors', () => {
+    expect(toServerError(new HttpError(429, 'rate_limited', 'Too many requests.', 3))).toEqual({
+      code: 'rate_limited',
+      message: 'Too many requests.',
+      status: 429,
+      retryable: true,
+      retryAfterSeconds: 3,
+    });
+    expect(toServerError(new HttpError(503, 'not_configured', 'No key.'))).toMatchObject({ status: 503, retryable: false });
+  });
+
+  it('maps failures of the AI to upstream errors', () => {
+    expect(toServerError(new ProviderError('Slow down.', { status: 429, retryAfterMs: 1500 }))).toEqual({
+      code: 'upstream_rate_limited',
+      message: 'Slow down.',
+      status: 429,
+      retryable: true,
+      retryAfterSeconds: 2,
+    });
+    expect(toServerError(new ProviderError('Bad gateway.', { status: 500 }))).toMatchObject({
+      code: 'upstream_error',
+      status: 502,
+      retryable: true,
+    });
+  });
+
+  it('hides the message of unexpected errors', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(toServerError(new Error('database password is hunter2'))).toEqual({
+      code: 'internal_error',
+      message: 'The translation server ran into an unexpected error.',
+      status: 500,
+      retryable: true,
+    });
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { TranslationServerError, TranslationServerErrorCode } from '../types';
+import { ProviderError } from '../services/retryService';
+
+/**
+ * An error answered with its status and code instead of a generic internal error.
+ */
+export class HttpError extends Error {
+  status: number;
+  code: TranslationServerErrorCode;
+  retryAfterSeconds?: number;
+
+  constructor(status: number, code: TranslationServerErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Converts anything thrown while handling a request into the error body sent to the client.
+ * Failures of the AI keep their message, since it helps users; unexpected errors are logged
+ * and replaced with a generic message so internals do not leak.
+ */
+export const toServerError = (error: unknown): TranslationServerError => {
+  if (error instanceof HttpError) {
+    return {
+      code: error.code,
+      message: error.message,
+      status: error.status,
+      retryable: error.status === 429,
+      retryAfterSeconds: error.retryAfterSeconds,
+    };
+  }
+  if (error instanceof ProviderError) {
+    const isRateLimited = error.status === 429;
+    return {
+      code: isRateLimited ? 'upstream_rate_limited' : 'upstream_error',
+      message: error.message,
+      status: isRateLimited ? 429 : 502,
+      retryable: error.retryable,
+      retryAfterSeconds: error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined,
+    };
+  }
+  console.error('Unexpected error while handling a request:', error);
+  return { code: 'internal_error', message: 'The translation server ran into an unexpected error.', status: 500, retryable: true };
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+  const serverError = toServerError(error);
+  if (res.headersSent) {
+    // A stream is already under way, so the error becomes its last line.
+    res.end(`${JSON.stringify({ error: serverError })}\n`);
+    return;
+  }
+  const headers: Record<string, string> = serverError.retryAfterSeconds !== undefined
+    ? { 'Retry-After': String(serverError.retryAfterSeconds) }
+    : {};
+  sendJson(res, serverError.status, { error: serverError }, headers);
+};
+
+/**
+ * Reads and parses a JSON request body, refusing bodies larger than `maxBytes` as soon as
+ * they are announced or exceed it while streaming in.
+ */
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const tooLarge = () => new HttpError(413, 'payload_too_large', `The request is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    throw tooLarge();
+  }
+  if (!req.headers['content-type']?.startsWith('application/json')) {
+    throw new HttpError(400, 'invalid_request', 'The request body must be JSON.');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'invalid_request', 'The request body is not valid JSON.');
+  }
+};
@@ -0,0 +1,31 @@
+import { geminiProvider, isGeminiConfigured } from '../services/geminiService';
+import { createTranslationServer } from './app';
+import { readServerConfig } from './config';
+
+/*
+ * The translation server keeps the Gemini API key out of the browser. The app sends it page
+ * images and extracted texts, and it forwards them to Gemini with the key from its environment.
+ */
+
+// Settings from .env.local are picked up as during development; real environment variables win.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file: everything comes from the environment.
+}
+
+const config = readServerConfig();
+const server = createTranslationServer({ config, provider: geminiProvider, isConfigured: isGeminiConfigured });
+
+server.listen(config.port, config.host, () => {
+  console.log(`Translation server listening on http://${config.host}:${config.port}`);
+  if (!isGeminiConfigured()) {
+    console.warn('GEMINI_API_KEY is not set; translation requests will be refused.');
+  }
+});
+
+const shutdown = () => {
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
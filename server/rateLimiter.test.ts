@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('rate limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst, then one request per refill interval', () => {
+    // 60 a minute: one token a second.
+    const limiter = createRateLimiter(60, 3);
+
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([0, 0, 0]);
+    expect(limiter.take('a')).toBe(1000);
+
+    vi.advanceTimersByTime(400);
+    expect(limiter.take('a')).toBe(600);
+
+    vi.advanceTimersByTime(600);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(1000);
+    limiter.dispose();
+  });
+
+  it('refills no further than the burst', () => {
+    const limiter = createRateLimiter(60, 2);
+    limiter.take('a');
+    limiter.take('a');
+
+    vi.advanceTimersByTime(60_000);
+    expect([limiter.take('a'), limiter.take('a')]).toEqual([0, 0]);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+    limiter.dispose();
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = createRateLimiter(60, 1);
+
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+    expect(limiter.take('b')).toBe(0);
+    limiter.dispose();
+  });
+});
@@ -0,0 +1,53 @@
+// Buckets untouched for this long are full again and can be forgotten.
+const IDLE_BUCKET_MS = 10 * 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimiter {
+  // Takes one request from the client's allowance. Returns 0 when the request may proceed,
+  // otherwise the number of milliseconds until it would.
+  take(clientId: string): number;
+  dispose(): void;
+}
+
+/**
+ * A token bucket per client: each client may send `burst` requests at once, and regains
+ * `perMinute` requests a minute after that.
+ */
+export const createRateLimiter = (perMinute: number, burst: number): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60000;
+
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [clientId, bucket] of buckets) {
+      if (now - bucket.updatedAt > IDLE_BUCKET_MS) buckets.delete(clientId);
+    }
+  }, IDLE_BUCKET_MS);
+  // The timer must not keep the process alive on shutdown.
+  cleanup.unref();
+
+  return {
+    take(clientId) {
+      const now = Date.now();
+      const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: now };
+      bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / refillPerMs);
+    },
+
+    dispose() {
+      clearInterval(cleanup);
+      buckets.clear();
+    },
+  };
+};
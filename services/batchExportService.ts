@@ -0,0 +1,60 @@
+import JSZip from 'jszip';
+import type { BackgroundFillMode, TranslationJob } from '../types';
+import { canvasToBlob, renderTranslatedPage } from './renderService';
+import { getLanguage } from './languageService';
+
+export const getBaseFileName = (file: File): string => file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
+
+// Gives files with the same name distinct folder names inside the archive.
+const uniqueName = (name: string, used: Set<string>): string => {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${name} (${suffix})`;
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+// Suffix that tells the files of a multi-language job apart, e.g. "-pt-BR".
+export const getLanguageSuffix = (language: string): string => {
+  const { code } = getLanguage(language);
+  return `-${code === 'und' ? language.replace(/[^\p{L}\p{N}]+/gu, '_') : code}`;
+};
+
+/**
+ * Packs every finished job into a ZIP: one folder per file with a translated PNG per page
+ * and the formatted translation as plain text, for each of the job's target languages.
+ */
+export const exportJobsAsZip = async (
+  jobs: TranslationJob[],
+  fillMode: BackgroundFillMode
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const job of jobs) {
+    if (job.status !== 'done' || job.results.length === 0) continue;
+
+    const baseName = uniqueName(getBaseFileName(job.file), usedNames);
+    const folder = zip.folder(baseName)!;
+
+    for (const result of job.results) {
+      const { targetLanguage } = result;
+      const languageSuffix = job.results.length > 1 ? getLanguageSuffix(targetLanguage) : '';
+
+      for (let index = 0; index < job.pages.length; index++) {
+        const blocks = result.pages[index]?.translationBlocks ?? [];
+        const canvas = await renderTranslatedPage(job.pages[index], blocks, { fillMode, targetLanguage });
+        const pageSuffix = job.pages.length > 1 ? `-page${index + 1}` : '';
+        folder.file(`${baseName}${pageSuffix}-translated${languageSuffix}.png`, await canvasToBlob(canvas));
+      }
+
+      const text = result.pages
+        .map((page, index) => (job.pages.length > 1 ? `--- Page ${index + 1} ---\n${page.formattedTranslation}` : page.formattedTranslation))
+        .join('\n\n');
+      folder.file(`${baseName}-translated${languageSuffix}.txt`, text);
+    }
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { TranslatedBlock, TranslationResult } from '../types';
+import { clampBoundingBox, mergeBlocks, splitBlock } from './blockEditService';
+
+const createResult = (blocks: TranslatedBlock[]): TranslationResult => ({
+  targetLanguage: 'English',
+  pages: [{ translationBlocks: blocks, formattedTranslation: '' }],
+});
+
+describe('mergeBlocks', () => {
+  const first: TranslatedBlock = {
+    originalText: 'Guten',
+    translatedText: 'Good',
+    boundingBox: { x: 10, y: 10, width: 20, height: 5 },
+    quad: [{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 30, y: 15 }, { x: 10, y: 15 }],
+    textAlign: 'center',
+    writingMode: 'horizontal',
+    role: 'heading',
+    id: 'h1',
+    detectedLanguage: 'German',
+    languageConfidence: 0.8,
+    inTargetLanguage: true,
+  };
+  const second: TranslatedBlock = {
+    originalText: 'Morgen',
+    translatedText: 'morning',
+    boundingBox: { x: 10, y: 20, width: 40, height: 5 },
+    textAlign: 'left',
+    detectedLanguage: 'Dutch',
+  };
+
+  it('joins the texts in reading order and covers every block', () => {
+    const [merged] = mergeBlocks(createResult([second, first]), 0, [0, 1]).pages[0].translationBlocks;
+
+    expect(merged.originalText).toBe('Guten Morgen');
+    expect(merged.translatedText).toBe('Good morning');
+    expect(merged.boundingBox).toEqual({ x: 10, y: 10, width: 40, height: 15 });
+    expect(merged.isEdited).toBe(true);
+  });
+
+  it('keeps the language and layout of the first block', () => {
+    const [merged] = mergeBlocks(createResult([first, second]), 0, [0, 1]).pages[0].translationBlocks;
+
+    expect(merged).toMatchObject({
+      textAlign: 'center',
+      writingMode: 'horizontal',
+      role: 'heading',
+      id: 'h1',
+      detectedLanguage: 'German',
+      languageConfidence: 0.8,
+    });
+    expect(merged.quad).toEqual([{ x: 10, y: 10 }, { x: 50, y: 10 }, { x: 50, y: 25 }, { x: 10, y: 25 }]);
+  });
+
+  it('leaves the merged block untranslated only when every part was', () => {
+    const mixed = mergeBlocks(createResult([first, second]), 0, [0, 1]).pages[0].translationBlocks[0];
+    const untranslated = mergeBlocks(createResult([first, { ...second, inTargetLanguage: true }]), 0, [0, 1]).pages[0].translationBlocks[0];
+
+    expect(mixed.inTargetLanguage).toBeUndefined();
+    expect(untranslated.inTargetLanguage).toBe(true);
+  });
+
+  it('puts the merged block where the first selected one was', () => {
+    const other: TranslatedBlock = { originalText: 'Preis', translatedText: 'Price', boundingBox: { x: 60, y: 60, width: 10, height: 5 } };
+    const blocks = mergeBlocks(createResult([other, first, second]), 0, [2, 1]).pages[0].translationBlocks;
+
+    expect(blocks.map(block => block.translatedText)).toEqual(['Price', 'Good morning']);
+  });
+});
+
+describe('splitBlock', () => {
+  it('stacks the halves of a wide block', () => {
+    const block: TranslatedBlock = {
+      originalText: 'Guten Morgen',
+      translatedText: 'Good morning',
+      boundingBox: { x: 10, y: 10, width: 40, height: 10 },
+      id: 'b1',
+      role: 'paragraph',
+    };
+    const [a, b] = splitBlock(createResult([block]), 0, 0).pages[0].translationBlocks;
+
+    expect(a).toMatchObject({ originalText: 'Guten', translatedText: 'Good', boundingBox: { x: 10, y: 10, width: 40, height: 5 }, id: 'b1' });
+    expect(b).toMatchObject({ originalText: 'Morgen', translatedText: 'morning', boundingBox: { x: 10, y: 15, width: 40, height: 5 }, role: 'paragraph' });
+    expect(b.id).toBeUndefined();
+  });
+
+  it('puts the halves of a tall block side by side, split at line breaks', () => {
+    const block: TranslatedBlock = {
+      originalText: 'eins\nzwei\ndrei',
+      translatedText: 'one\ntwo\nthree',
+      boundingBox: { x: 10, y: 10, width: 10, height: 40 },
+    };
+    const [a, b] = splitBlock(createResult([block]), 0, 0).pages[0].translationBlocks;
+
+    expect(a).toMatchObject({ translatedText: 'one\ntwo', boundingBox: { x: 10, y: 10, width: 5, height: 40 } });
+    expect(b).toMatchObject({ translatedText: 'three', boundingBox: { x: 15, y: 10, width: 5, height: 40 } });
+  });
+});
+
+describe('clampBoundingBox', () => {
+  it('keeps boxes on the page and above the minimum size', () => {
+    expect(clampBoundingBox({ x: -5, y: 95, width: 20, height: 10 })).toEqual({ x: 0, y: 90, width: 20, height: 10 });
+    expect(clampBoundingBox({ x: 50, y: 50, width: 0, height: -1 })).toEqual({ x: 50, y: 50, width: 0.5, height: 0.5 });
+    expect(clampBoundingBox({ x: 10, y: 10, width: 150, height: 20 })).toEqual({ x: 0, y: 10, width: 100, height: 20 });
+  });
+});
@@ -0,0 +1,221 @@
+import type { BoundingBox, PageTranslation, TranslatedBlock, TranslationResult } from '../types';
+import { fitQuadToBox, getQuadBounds, splitQuad } from './geometryService';
+
+export type BlockTextChanges = Partial<Pick<TranslatedBlock, 'originalText' | 'translatedText'>>;
+
+// Carries a text correction over to the formatted document, which quotes block texts verbatim.
+const replaceFirst = (text: string, search: string, replacement: string): string => {
+  if (!search || search === replacement) return text;
+  const index = text.indexOf(search);
+  if (index === -1) return text;
+  return text.slice(0, index) + replacement + text.slice(index + search.length);
+};
+
+const updatePage = (
+  result: TranslationResult,
+  pageIndex: number,
+  update: (page: PageTranslation) => PageTranslation
+): TranslationResult => ({
+  ...result,
+  pages: result.pages.map((page, index) => (index === pageIndex ? update(page) : page)),
+});
+
+/**
+ * Applies a reviewer's correction to one block and keeps the formatted document in sync.
+ */
+export const updateBlockText = (
+  result: TranslationResult,
+  pageIndex: number,
+  blockIndex: number,
+  changes: BlockTextChanges
+): TranslationResult => updatePage(result, pageIndex, page => {
+  const block = page.translationBlocks[blockIndex];
+  if (!block) return page;
+
+  const updatedBlock: TranslatedBlock = { ...block, ...changes, isEdited: true };
+  if (changes.translatedText !== undefined && changes.translatedText !== block.translatedText) {
+    updatedBlock.memoryMatch = undefined;
+  }
+  // A reviewer who writes a different translation wants it drawn, even if the block was left untouched.
+  if (updatedBlock.inTargetLanguage && updatedBlock.translatedText !== updatedBlock.originalText) {
+    updatedBlock.inTargetLanguage = undefined;
+  }
+
+  let formattedTranslation = page.formattedTranslation;
+  if (changes.translatedText !== undefined) {
+    formattedTranslation = replaceFirst(formattedTranslation, block.translatedText, changes.translatedText);
+  }
+  if (changes.originalText !== undefined) {
+    formattedTranslation = replaceFirst(formattedTranslation, block.originalText, changes.originalText);
+  }
+
+  return {
+    ...page,
+    translationBlocks: page.translationBlocks.map((b, index) => (index === blockIndex ? updatedBlock : b)),
+    formattedTranslation,
+  };
+});
+
+const MIN_BOX_SIZE = 0.5;
+
+// Keeps a box inside the page and at least MIN_BOX_SIZE percent wide and tall.
+export const clampBoundingBox = (box: BoundingBox): BoundingBox => {
+  const width = Math.min(100, Math.max(MIN_BOX_SIZE, box.width));
+  const height = Math.min(100, Math.max(MIN_BOX_SIZE, box.height));
+  return {
+    x: Math.min(100 - width, Math.max(0, box.x)),
+    y: Math.min(100 - height, Math.max(0, box.y)),
+    width,
+    height,
+  };
+};
+
+const updateBlocks = (
+  result: TranslationResult,
+  pageIndex: number,
+  update: (blocks: TranslatedBlock[]) => TranslatedBlock[]
+): TranslationResult => updatePage(result, pageIndex, page => ({
+  ...page,
+  translationBlocks: update(page.translationBlocks),
+}));
+
+// Top-to-bottom, then left-to-right, with a tolerance so blocks on the same line compare by x.
+export const compareReadingOrder = (a: TranslatedBlock, b: TranslatedBlock): number => {
+  const lineTolerance = Math.min(a.boundingBox.height, b.boundingBox.height) / 2;
+  if (Math.abs(a.boundingBox.y - b.boundingBox.y) > lineTolerance) {
+    return a.boundingBox.y - b.boundingBox.y;
+  }
+  return a.boundingBox.x - b.boundingBox.x;
+};
+
+const joinTexts = (texts: string[]): string => texts.map(text => text.trim()).filter(Boolean).join(' ');
+
+export const setBlockBoundingBox = (
+  result: TranslationResult,
+  pageIndex: number,
+  blockIndex: number,
+  boundingBox: BoundingBox
+): TranslationResult => updateBlocks(result, pageIndex, blocks => blocks.map((block, index) => {
+  if (index !== blockIndex) return block;
+  const clamped = clampBoundingBox(boundingBox);
+  // A rotated outline moves and stretches with its box.
+  const quad = block.quad && fitQuadToBox(block.quad, block.boundingBox, clamped);
+  return { ...block, boundingBox: clamped, quad, isEdited: true };
+}));
+
+export const addBlock = (
+  result: TranslationResult,
+  pageIndex: number,
+  block: TranslatedBlock
+): TranslationResult => updateBlocks(result, pageIndex, blocks => [
+  ...blocks,
+  { ...block, boundingBox: clampBoundingBox(block.boundingBox), isEdited: true },
+]);
+
+export const deleteBlocks = (
+  result: TranslationResult,
+  pageIndex: number,
+  blockIndices: number[]
+): TranslationResult => updateBlocks(result, pageIndex, blocks => blocks.filter((_, index) => !blockIndices.includes(index)));
+
+/**
+ * Replaces the given blocks with one block covering all of them, joining their texts in reading order.
+ * The merged block takes the position of the first selected block.
+ */
+export const mergeBlocks = (
+  result: TranslationResult,
+  pageIndex: number,
+  blockIndices: number[]
+): TranslationResult => updateBlocks(result, pageIndex, blocks => {
+  const selected = blockIndices.map(index => blocks[index]).filter(Boolean);
+  if (selected.length < 2) return blocks;
+
+  const ordered = [...selected].sort(compareReadingOrder);
+  const left = Math.min(...selected.map(block => block.boundingBox.x));
+  const top = Math.min(...selected.map(block => block.boundingBox.y));
+  const right = Math.max(...selected.map(block => block.boundingBox.x + block.boundingBox.width));
+  const bottom = Math.max(...selected.map(block => block.boundingBox.y + block.boundingBox.height));
+
+  // The merged block keeps the structure, language and layout of the first one, so links to it
+  // stay intact and its text is drawn the same way. Its outline stretches over the merged box.
+  const first = ordered[0];
+  const boundingBox = { x: left, y: top, width: right - left, height: bottom - top };
+  const merged: TranslatedBlock = {
+    originalText: joinTexts(ordered.map(block => block.originalText)),
+    translatedText: joinTexts(ordered.map(block => block.translatedText)),
+    boundingBox,
+    quad: first.quad && fitQuadToBox(first.quad, first.boundingBox, boundingBox),
+    textAlign: first.textAlign,
+    writingMode: first.writingMode,
+    role: first.role,
+    id: first.id,
+    labelId: first.labelId,
+    table: first.table,
+    detectedLanguage: first.detectedLanguage,
+    languageConfidence: first.languageConfidence,
+    // Left untranslated only when every part was, so no translated text goes undrawn.
+    inTargetLanguage: ordered.every(block => block.inTargetLanguage) || undefined,
+    isEdited: true,
+  };
+
+  const insertAt = Math.min(...blockIndices);
+  return blocks.flatMap((block, index) => {
+    if (index === insertAt) return [merged];
+    return blockIndices.includes(index) ? [] : [block];
+  });
+});
+
+// Splits text at a line break when there is one, otherwise at the space closest to the middle.
+const splitText = (text: string): [string, string] => {
+  const lines = text.split('\n');
+  if (lines.length > 1) {
+    const half = Math.ceil(lines.length / 2);
+    return [lines.slice(0, half).join('\n'), lines.slice(half).join('\n')];
+  }
+
+  const middle = text.length / 2;
+  let splitAt = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ' ' && (splitAt === -1 || Math.abs(i - middle) < Math.abs(splitAt - middle))) {
+      splitAt = i;
+    }
+  }
+  // Scripts written without spaces fall back to splitting at the middle character.
+  if (splitAt === -1) splitAt = Math.floor(middle);
+
+  return [text.slice(0, splitAt).trim(), text.slice(splitAt).trim()];
+};
+
+/**
+ * Splits a block into two halves, stacked vertically for wide blocks and side by side for tall ones.
+ * Blocks with an outline are cut across their lines, or between their columns for vertical text.
+ */
+export const splitBlock = (
+  result: TranslationResult,
+  pageIndex: number,
+  blockIndex: number
+): TranslationResult => updateBlocks(result, pageIndex, blocks => {
+  const block = blocks[blockIndex];
+  if (!block) return blocks;
+
+  const { x, y, width, height } = block.boundingBox;
+  const [originalA, originalB] = splitText(block.originalText);
+  const [translatedA, translatedB] = splitText(block.translatedText);
+
+  const splitVertically = height > width;
+  const [quadA, quadB] = block.quad ? splitQuad(block.quad, block.writingMode === 'vertical') : [undefined, undefined];
+  const boxA: BoundingBox = quadA ? getQuadBounds(quadA) : splitVertically ? { x, y, width: width / 2, height } : { x, y, width, height: height / 2 };
+  const boxB: BoundingBox = quadB
+    ? getQuadBounds(quadB)
+    : splitVertically
+      ? { x: x + width / 2, y, width: width / 2, height }
+      : { x, y: y + height / 2, width, height: height / 2 };
+
+  return [
+    ...blocks.slice(0, blockIndex),
+    { ...block, originalText: originalA, translatedText: translatedA, boundingBox: boxA, quad: quadA, isEdited: true },
+    // Only the first half keeps the id, which must stay unique; both halves keep the role and table cell.
+    { ...block, originalText: originalB, translatedText: translatedB, boundingBox: boxB, quad: quadB, id: undefined, isEdited: true },
+    ...blocks.slice(blockIndex + 1),
+  ];
+});
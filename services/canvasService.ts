@@ -0,0 +1,61 @@
+// Where canvases, images and fonts come from. The app draws with the DOM; the Node library
+// (lib/index.ts) installs an implementation backed by @napi-rs/canvas, so the same rendering,
+// sampling and image preparation code runs in both.
+export interface CanvasPlatform {
+  createCanvas(width: number, height: number): HTMLCanvasElement;
+  loadImage(src: string): Promise<HTMLImageElement>;
+  // Makes a font file available for canvas text under the given family name.
+  loadFont(family: string, url: string): Promise<void>;
+  encodeCanvas(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob>;
+}
+
+const browserPlatform: CanvasPlatform = {
+  createCanvas(width, height) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+
+  loadImage(src) {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Could not load the image.'));
+      image.src = src;
+    });
+  },
+
+  async loadFont(family, url) {
+    const face = await new FontFace(family, `url(${url})`).load();
+    document.fonts.add(face);
+  },
+
+  encodeCanvas(canvas, type, quality) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Could not encode the rendered page.'));
+        }
+      }, type, quality);
+    });
+  },
+};
+
+let platform: CanvasPlatform = browserPlatform;
+
+export const setCanvasPlatform = (implementation: CanvasPlatform) => {
+  platform = implementation;
+};
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => platform.createCanvas(width, height);
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => platform.loadImage(src);
+
+export const loadFont = (family: string, url: string): Promise<void> => platform.loadFont(family, url);
+
+export const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  platform.encodeCanvas(canvas, type, quality);
@@ -0,0 +1,16 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { PROJECT_STORE, runRequest } from './database';
+
+describe('runRequest', () => {
+  // As when storage runs out while committing: the request itself succeeded.
+  it('rejects when the transaction is aborted after its request succeeded', async () => {
+    const aborted = runRequest(PROJECT_STORE, 'readwrite', store => {
+      const request = store.getAll();
+      request.onsuccess = () => store.transaction.abort();
+      return request;
+    });
+
+    await expect(aborted).rejects.toThrow('aborted');
+  });
+});
@@ -0,0 +1,56 @@
+const DB_NAME = 'tomeus';
+const DB_VERSION = 3;
+
+export const PROJECT_STORE = 'projects';
+// Page layouts detected by the AI, keyed by file hash and page so they are never detected twice.
+export const LAYOUT_STORE = 'layouts';
+// Reviewed segment translations reused by later runs, indexed by target language.
+export const MEMORY_STORE = 'memory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(LAYOUT_STORE)) {
+          db.createObjectStore(LAYOUT_STORE);
+        }
+        if (!db.objectStoreNames.contains(MEMORY_STORE)) {
+          db.createObjectStore(MEMORY_STORE, { keyPath: 'id' }).createIndex('targetLanguage', 'targetLanguage');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error('Could not open the local project database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one object store in its own transaction and resolves
+ * once the transaction has completed.
+ */
+export const runRequest = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('Local database operation failed.'));
+    // Running out of storage aborts the transaction without an error on any request.
+    transaction.onabort = () => reject(transaction.error ?? new Error('Local database operation was aborted.'));
+  });
+};
@@ -0,0 +1,17 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import type { PageLayout } from '../types';
+import { cacheLayout, getCachedLayout } from './detectionCache';
+
+const layout: PageLayout = { blocks: [], formattedText: 'Detected by model A' };
+
+describe('layout cache', () => {
+  it('keeps layouts of different endpoints and models apart', async () => {
+    const key = { fileHash: 'abc', pageIndex: 0, providerId: 'openai-compatible' as const };
+    await cacheLayout({ ...key, providerFingerprint: 'http://localhost:11434/v1|model-a' }, layout);
+
+    expect(await getCachedLayout({ ...key, providerFingerprint: 'http://localhost:11434/v1|model-a' })).toEqual(layout);
+    expect(await getCachedLayout({ ...key, providerFingerprint: 'http://localhost:11434/v1|model-b' })).toBeUndefined();
+    expect(await getCachedLayout({ ...key, providerFingerprint: 'https://api.example.com/v1|model-a' })).toBeUndefined();
+  });
+});
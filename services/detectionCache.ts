@@ -0,0 +1,53 @@
+import type { BoundingBox, PageLayout, TranslationProviderId } from '../types';
+import { LAYOUT_STORE, runRequest } from './database';
+
+/**
+ * Hex SHA-256 digest of a file, used to recognize the same document across uploads.
+ */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export interface LayoutCacheKey {
+  fileHash: string;
+  pageIndex: number;
+  providerId: TranslationProviderId;
+  // The endpoint and model of providers that can be configured, see TranslationProvider.fingerprint.
+  providerFingerprint?: string;
+  // Pinning a source language changes what the model reports, so it is part of the key.
+  sourceLanguage?: string;
+  // Masked regions hide text from the model, so a page detected with other redactions differs.
+  redactions?: BoundingBox[];
+}
+
+const toRedactionKey = (redactions: BoundingBox[]): string =>
+  redactions.map(({ x, y, width, height }) => [x, y, width, height].map(value => value.toFixed(2)).join(',')).join(';');
+
+// Pages without redactions keep the key they were cached under before redactions existed.
+const toKey = ({ fileHash, pageIndex, providerId, providerFingerprint, sourceLanguage, redactions = [] }: LayoutCacheKey): string => [
+  fileHash,
+  pageIndex,
+  providerFingerprint ? `${providerId}@${encodeURIComponent(providerFingerprint)}` : providerId,
+  sourceLanguage ?? 'auto',
+  ...(redactions.length > 0 ? [toRedactionKey(redactions)] : []),
+].join(':');
+
+// The cache only saves work, so failures to read or write it are logged and otherwise ignored.
+
+export const getCachedLayout = async (key: LayoutCacheKey): Promise<PageLayout | undefined> => {
+  try {
+    return await runRequest(LAYOUT_STORE, 'readonly', store => store.get(toKey(key)) as IDBRequest<PageLayout | undefined>);
+  } catch (error) {
+    console.warn("Could not read the layout cache:", error);
+    return undefined;
+  }
+};
+
+export const cacheLayout = async (key: LayoutCacheKey, layout: PageLayout): Promise<void> => {
+  try {
+    await runRequest(LAYOUT_STORE, 'readwrite', store => store.put(layout, toKey(key)));
+  } catch (error) {
+    console.warn("Could not write to the layout cache:", error);
+  }
+};
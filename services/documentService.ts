@@ -0,0 +1,71 @@
+// The pdf.js worker is set up by the app (index.tsx); in Node pdf.js runs without one.
+import * as pdfjsLib from 'pdfjs-dist';
+import type { SourcePage } from '../types';
+import { createCanvas, loadImage } from './canvasService';
+import { normalizeOrientation, readExifOrientation } from './imageService';
+
+// PDF pages are rendered at twice their nominal size so small print stays legible to the AI.
+export const PDF_RENDER_SCALE = 2;
+
+// Encodes without FileReader, which Node lacks, in chunks small enough to spread into fromCharCode.
+const readFileAsDataURL = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return `data:${file.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+const rasterizePdf = async (file: File): Promise<SourcePage[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+  try {
+    const pages: SourcePage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+
+      const canvas = createCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+
+      await page.render({ canvas, viewport }).promise;
+      page.cleanup();
+
+      pages.push({
+        dataURL: canvas.toDataURL('image/png'),
+        mimeType: 'image/png',
+        width: canvas.width,
+        height: canvas.height,
+      });
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Turns an uploaded file into the list of page images the rest of the app works with.
+ * Images become a single page, turned upright if needed; PDFs are rasterized page by page.
+ */
+export const loadSourcePages = async (file: File): Promise<SourcePage[]> => {
+  if (file.type === 'application/pdf') {
+    try {
+      return await rasterizePdf(file);
+    } catch (error) {
+      console.error("Error rendering PDF:", error);
+      throw new Error(`Could not read the PDF "${file.name}". It may be encrypted or damaged.`);
+    }
+  }
+
+  const dataURL = await readFileAsDataURL(file);
+  // Phone photos are often stored sideways with an EXIF tag saying how to turn them.
+  if (await readExifOrientation(file) !== 1) {
+    return [await normalizeOrientation(dataURL, file.type)];
+  }
+  const image = await loadImage(dataURL);
+  return [{ dataURL, mimeType: file.type, width: image.naturalWidth, height: image.naturalHeight }];
+};
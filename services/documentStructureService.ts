@@ -0,0 +1,59 @@
+import type { TranslatedBlock } from '../types';
+import { compareReadingOrder } from './blockEditService';
+
+// A page as a sequence of document elements in reading order.
+export type DocumentNode =
+  | { kind: 'heading' | 'paragraph' | 'caption' | 'figure'; block: TranslatedBlock }
+  // A label with the values linked to it, e.g. "Name:" and "Jane Doe".
+  | { kind: 'field'; label: TranslatedBlock; values: TranslatedBlock[] }
+  // Cells hold the blocks at that position; cells no block was found in are empty.
+  | { kind: 'table'; rows: TranslatedBlock[][][] };
+
+export const hasDocumentStructure = (blocks: TranslatedBlock[]): boolean => blocks.some(block => block.role);
+
+const buildTable = (cells: TranslatedBlock[]): TranslatedBlock[][][] => {
+  const rowCount = Math.max(...cells.map(block => block.table!.row)) + 1;
+  const columnCount = Math.max(...cells.map(block => block.table!.column)) + 1;
+  const rows = Array.from({ length: rowCount }, () => Array.from({ length: columnCount }, (): TranslatedBlock[] => []));
+  cells.forEach(block => rows[block.table!.row][block.table!.column].push(block));
+  return rows;
+};
+
+/**
+ * Groups the blocks of a page into document elements in reading order. A table appears where
+ * its first cell is read and a field where its label is; values whose label is missing and
+ * blocks without a role become paragraphs.
+ */
+export const buildDocumentStructure = (blocks: TranslatedBlock[]): DocumentNode[] => {
+  const ordered = [...blocks].sort(compareReadingOrder);
+  const labelIds = new Set(ordered.filter(block => block.role === 'label' && block.id).map(block => block.id));
+  const emitted = new Set<TranslatedBlock>();
+  const nodes: DocumentNode[] = [];
+
+  for (const block of ordered) {
+    if (emitted.has(block)) continue;
+
+    if (block.table) {
+      const { tableId } = block.table;
+      const cells = ordered.filter(other => other.table?.tableId === tableId);
+      cells.forEach(cell => emitted.add(cell));
+      nodes.push({ kind: 'table', rows: buildTable(cells) });
+    } else if (block.role === 'label') {
+      const values = block.id
+        ? ordered.filter(other => other.role === 'value' && other.labelId === block.id && !emitted.has(other))
+        : [];
+      values.forEach(value => emitted.add(value));
+      emitted.add(block);
+      nodes.push({ kind: 'field', label: block, values });
+    } else if (block.role === 'value' && block.labelId && labelIds.has(block.labelId)) {
+      // Read before its label, e.g. in a right-to-left layout; it is emitted with the label.
+      continue;
+    } else {
+      emitted.add(block);
+      const kind = block.role === 'heading' || block.role === 'caption' || block.role === 'figure' ? block.role : 'paragraph';
+      nodes.push({ kind, block });
+    }
+  }
+
+  return nodes;
+};
@@ -1,20 +1,73 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { TranslationResult } from '../types';
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import type { TranslationProvider } from '../types';
+import { ProviderError } from './retryService';
+import {
+    buildDetectionPrompt,
+    buildTextTranslationPrompt,
+    parseDetectionResponse,
+    parsePartialDetection,
+    parsePartialTranslations,
+    parseTextTranslationResponse,
+} from './translationPrompt';
+
+const GEMINI_MODEL = "gemini-2.5-flash";
+
+// Talks to Gemini directly with the API key. It only runs on the translation server (see
+// server/index.ts), so the key never reaches the browser; the app uses translationServerService.
+
+let ai: GoogleGenAI | null = null;
+
+// The client is created on first use so the server can start, and answer health checks, without a key.
+const getClient = (): GoogleGenAI => {
+    if (!ai) {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) {
+            throw new Error("GEMINI_API_KEY environment variable not set on the translation server.");
+        }
+        ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+};
 
-const API_KEY = process.env.API_KEY;
+export const isGeminiConfigured = (): boolean => Boolean(process.env.GEMINI_API_KEY);
 
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
-}
+// Sends a request and converts API failures into ProviderErrors, so rate limits (429) and
+// temporary server errors are retried. With `onText` the response is streamed, and the callback
+// receives the text received so far after every chunk.
+const generateContent = async (
+    request: Parameters<GoogleGenAI['models']['generateContent']>[0],
+    onText?: (text: string) => void
+): Promise<string> => {
+    try {
+        if (!onText) {
+            const response = await getClient().models.generateContent(request);
+            return response.text ?? '';
+        }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+        let text = '';
+        for await (const chunk of await getClient().models.generateContentStream(request)) {
+            text += chunk.text ?? '';
+            onText(text);
+        }
+        return text;
+    } catch (error) {
+        if (error instanceof ApiError) {
+            throw new ProviderError(error.message, { status: error.status });
+        }
+        // fetch rejects with a TypeError when Gemini cannot be reached at all.
+        if (error instanceof TypeError) {
+            throw new ProviderError("Could not reach Gemini.", { retryable: true });
+        }
+        throw error;
+    }
+};
 
 const schema = {
     type: Type.OBJECT,
     properties: {
-        translationBlocks: {
+        blocks: {
             type: Type.ARRAY,
-            description: "An array of all detected text blocks with their translations and bounding boxes for image overlay.",
+            description: "An array of all detected text blocks with their original text and bounding boxes for image overlay.",
             items: {
                 type: Type.OBJECT,
                 properties: {
@@ -22,10 +75,6 @@ const schema = {
                         type: Type.STRING,
                         description: 'The original text content detected in the bounding box.',
                     },
-                    translatedText: {
-                        type: Type.STRING,
-                        description: 'The translated text content.',
-                    },
                     boundingBox: {
                         type: Type.OBJECT,
                         properties: {
@@ -36,108 +85,127 @@ const schema = {
                         },
                         required: ['x', 'y', 'width', 'height']
                     },
+                    textAlign: {
+                        type: Type.STRING,
+                        enum: ['left', 'center', 'right'],
+                        description: 'The horizontal alignment of the text within its bounding box.',
+                    },
+                    rotation: {
+                        type: Type.NUMBER,
+                        description: 'The clockwise rotation of the text in degrees. 0 for horizontal text.',
+                    },
+                    quad: {
+                        type: Type.ARRAY,
+                        description: 'For rotated or skewed text only: its four corners as percentages, top-left, top-right, bottom-right, bottom-left as the text is read.',
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                x: { type: Type.NUMBER },
+                                y: { type: Type.NUMBER },
+                            },
+                            required: ['x', 'y'],
+                        },
+                    },
+                    writingMode: {
+                        type: Type.STRING,
+                        enum: ['horizontal', 'vertical'],
+                        description: 'Whether the text runs in horizontal lines or vertical columns.',
+                    },
+                    id: {
+                        type: Type.STRING,
+                        description: 'A short identifier of the block, unique on the page, such as "b1".',
+                    },
+                    role: {
+                        type: Type.STRING,
+                        enum: ['heading', 'paragraph', 'label', 'value', 'table-cell', 'caption', 'figure'],
+                        description: 'What the block is in the structure of the document.',
+                    },
+                    labelId: {
+                        type: Type.STRING,
+                        description: 'For values: the id of the label block they belong to.',
+                    },
+                    table: {
+                        type: Type.OBJECT,
+                        description: 'For table cells: the table and the zero-based position of the cell in it.',
+                        properties: {
+                            tableId: { type: Type.STRING },
+                            row: { type: Type.INTEGER },
+                            column: { type: Type.INTEGER },
+                        },
+                        required: ['tableId', 'row', 'column'],
+                    },
+                    detectedLanguage: {
+                        type: Type.STRING,
+                        description: 'The English name of the language the original text is written in.',
+                    },
+                    languageConfidence: {
+                        type: Type.NUMBER,
+                        description: 'Confidence in the detected language, from 0 to 1.',
+                    },
                 },
-                required: ['originalText', 'translatedText', 'boundingBox'],
+                required: ['originalText', 'boundingBox'],
             },
         },
-        formattedTranslation: {
+        formattedText: {
             type: Type.STRING,
-            description: "A single, well-formatted string representing the entire translated document, preserving its structure for a text-based view."
+            description: "A single, well-formatted string representing the entire document in its original language, preserving its structure for a text-based view."
         }
     },
-    required: ['translationBlocks', 'formattedTranslation']
+    required: ['blocks', 'formattedText']
+};
+
+const textSchema = {
+    type: Type.OBJECT,
+    properties: {
+        translations: {
+            type: Type.ARRAY,
+            description: 'One translation per input text, in the same order.',
+            items: { type: Type.STRING },
+        },
+        formattedTranslation: {
+            type: Type.STRING,
+            description: 'The formatted document translated for the text-based view, if one was given.',
+        },
+    },
+    required: ['translations'],
 };
 
 
-export const translateImageContent = async (
-    base64ImageData: string,
-    mimeType: string,
-    targetLanguage: string
-): Promise<TranslationResult> => {
-    
-    const prompt = `
-        You are an expert document and image analyzer and translator.
-        Your task is to perform two main objectives:
-
-        OBJECTIVE 1: DETAILED BLOCK-LEVEL TRANSLATION
-        1.  Detect all distinct text blocks in the image. This includes headings, paragraphs, labels, and even small text.
-        2.  For each text block, determine its precise bounding box. The bounding box coordinates (x, y) and dimensions (width, height) MUST be percentages relative to the total image dimensions.
-        3.  Extract the original text from within each bounding box.
-        4.  Translate the original text into ${targetLanguage}.
-        5.  Compile this information into an array of "translationBlocks". This data will be used to create an interactive overlay on the original image.
-
-        OBJECTIVE 2: FORMATTED DOCUMENT TRANSLATION
-        1.  Analyze the overall logical structure of the document. Identify labels and their corresponding values (e.g., "Name: John Doe", "Address: ..."), paragraphs, and important non-text elements (like photos).
-        2.  Create a single, well-formatted text string that represents the entire translated document. This string should be for display in a text-only view.
-        3.  For key-value pairs, the format should be: \`OriginalLabel (TranslatedLabel): OriginalValue (TranslatedValue)\`.
-        4.  For paragraphs, combine original and translated text clearly.
-        5.  Arrange all content to match the original document's layout and reading flow. Use the '\\n' character for line breaks to separate distinct sections. Use '\\n\\n' for empty lines.
-        6.  For non-text elements, use a descriptive placeholder, e.g., \`[Top Right - Photo of Person]\`.
-        
-        EXAMPLE of the formatted document string output:
-        ---
-        [Top Right - Photo of Person]\\n\\n姓名 (Name): 陈毛毛 (Chen Maomao)\\n\\n性别 (Sex): 男 (Male) 民族 (Ethnicity): 汉 (Han)\\n\\n公民身份号码 (Citizen ID Number): 341103199109233030\\n\\n常住户口所在地址: (Registered Permanent Residence Address)\\n江苏省南京市浦口区上城路2号13幢二单元805室 (Room 805, Unit 2, Building 13, Shangcheng Road, Pukou District, Nanjing City, Jiangsu Province)
-        ---
-
-        FINAL OUTPUT:
-        Return a single JSON object that strictly adheres to the provided schema, containing both "translationBlocks" (for the overlay) and "formattedTranslation" (for the text view).
-    `;
+export const geminiProvider: TranslationProvider = {
+    id: 'gemini',
 
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
+    async detectPage({ base64ImageData, mimeType, sourceLanguage, signal, onPartial }) {
+        const text = await generateContent({
+            model: GEMINI_MODEL,
             contents: {
                 parts: [
                     { inlineData: { data: base64ImageData, mimeType: mimeType } },
-                    { text: prompt },
+                    { text: buildDetectionPrompt(sourceLanguage) },
                 ]
             },
             config: {
                 responseMimeType: "application/json",
                 responseSchema: schema,
+                abortSignal: signal,
             }
-        });
+        }, onPartial && (text => onPartial(parsePartialDetection(text))));
 
-        const jsonText = response.text.trim();
-        const parsedJson = JSON.parse(jsonText);
-
-        if (typeof parsedJson !== 'object' || parsedJson === null || !('translationBlocks' in parsedJson) || !Array.isArray(parsedJson.translationBlocks) || !('formattedTranslation' in parsedJson) || typeof parsedJson.formattedTranslation !== 'string') {
-            throw new Error("API did not return the expected object structure with 'translationBlocks' and 'formattedTranslation'.");
-        }
+        return parseDetectionResponse(text);
+    },
 
-        const blocks = parsedJson.translationBlocks;
-        const isValid = blocks.every(item => 
-            typeof item === 'object' &&
-            item !== null &&
-            'originalText' in item &&
-            'translatedText' in item &&
-            'boundingBox' in item &&
-            typeof item.boundingBox === 'object' &&
-            item.boundingBox !== null &&
-            'x' in item.boundingBox &&
-            'y' in item.boundingBox &&
-            'width' in item.boundingBox &&
-            'height' in item.boundingBox
-        );
-
-        if (!isValid) {
-            throw new Error("The translated data within 'translationBlocks' is malformed.");
-        }
-        
-        // The model might sometimes return escaped newline characters (\\n) instead of actual newlines (\n).
-        // We replace them here to ensure correct rendering in the <pre> tag.
-        const correctedFormattedTranslation = parsedJson.formattedTranslation.replace(/\\n/g, '\n');
+    async translateTexts(request) {
+        if (request.texts.length === 0 && !request.formattedText) return { translations: [] };
 
-        return {
-            translationBlocks: blocks,
-            formattedTranslation: correctedFormattedTranslation,
-        };
+        const text = await generateContent({
+            model: GEMINI_MODEL,
+            contents: buildTextTranslationPrompt(request),
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: textSchema,
+                abortSignal: request.signal,
+            }
+        }, request.onPartial && (text => request.onPartial!(parsePartialTranslations(text))));
 
-    } catch (error) {
-        console.error("Error in Gemini API call:", error);
-        if (error instanceof Error) {
-           throw new Error(`Failed to get translation from AI: ${error.message}`);
-        }
-        throw new Error("An unknown error occurred while communicating with the AI.");
-    }
-};
\ No newline at end of file
+        return parseTextTranslationResponse(text, request.texts.length);
+    },
+};
@@ -0,0 +1,85 @@
+import type { BoundingBox, Point, Quad, TranslatedBlock } from '../types';
+
+// A rectangle turned around its center, in pixels. Width runs along the block's top edge.
+export interface OrientedBox {
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+  // Clockwise, in degrees.
+  rotation: number;
+}
+
+export const getQuadBounds = (quad: Quad): BoundingBox => {
+  const xs = quad.map(point => point.x);
+  const ys = quad.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/**
+ * Moves and scales a quad along with its bounding box, e.g. when a reviewer drags or resizes the box.
+ */
+export const fitQuadToBox = (quad: Quad, from: BoundingBox, to: BoundingBox): Quad => quad.map(point => ({
+  x: to.x + (from.width > 0 ? ((point.x - from.x) / from.width) * to.width : 0),
+  y: to.y + (from.height > 0 ? ((point.y - from.y) / from.height) * to.height : 0),
+})) as Quad;
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Cuts a quad in two halves in reading order: top and bottom for horizontal text, right and left
+ * for vertical columns.
+ */
+export const splitQuad = ([topLeft, topRight, bottomRight, bottomLeft]: Quad, vertical: boolean): [Quad, Quad] => {
+  if (vertical) {
+    const top = midpoint(topLeft, topRight);
+    const bottom = midpoint(bottomLeft, bottomRight);
+    return [[top, topRight, bottomRight, bottom], [topLeft, top, bottom, bottomLeft]];
+  }
+  const left = midpoint(topLeft, bottomLeft);
+  const right = midpoint(topRight, bottomRight);
+  return [[topLeft, topRight, right, left], [left, right, bottomRight, bottomLeft]];
+};
+
+/**
+ * The area a block's translation is drawn into, on a page of the given size in pixels.
+ * Blocks with a quad use its rotated rectangle. Otherwise the bounding box is turned by the
+ * block's rotation; for text turned by roughly a quarter turn its sides are swapped, so the
+ * text runs along the box's height.
+ */
+export const getOrientedBox = (block: TranslatedBlock, pageWidth: number, pageHeight: number): OrientedBox => {
+  if (block.quad) {
+    const [topLeft, topRight, bottomRight, bottomLeft] = block.quad.map(point => ({
+      x: (point.x / 100) * pageWidth,
+      y: (point.y / 100) * pageHeight,
+    }));
+    const along = { x: topRight.x - topLeft.x + bottomRight.x - bottomLeft.x, y: topRight.y - topLeft.y + bottomRight.y - bottomLeft.y };
+    return {
+      centerX: (topLeft.x + topRight.x + bottomRight.x + bottomLeft.x) / 4,
+      centerY: (topLeft.y + topRight.y + bottomRight.y + bottomLeft.y) / 4,
+      width: (Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) + Math.hypot(bottomRight.x - bottomLeft.x, bottomRight.y - bottomLeft.y)) / 2,
+      height: (Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y) + Math.hypot(bottomRight.x - topRight.x, bottomRight.y - topRight.y)) / 2,
+      rotation: (Math.atan2(along.y, along.x) * 180) / Math.PI,
+    };
+  }
+
+  const { x, y, width, height } = block.boundingBox;
+  const rotation = block.rotation ?? 0;
+  const radians = (rotation * Math.PI) / 180;
+  const isSideways = Math.abs(Math.sin(radians)) > Math.abs(Math.cos(radians));
+  const pixelWidth = (width / 100) * pageWidth;
+  const pixelHeight = (height / 100) * pageHeight;
+  return {
+    centerX: ((x + width / 2) / 100) * pageWidth,
+    centerY: ((y + height / 2) / 100) * pageHeight,
+    width: isSideways ? pixelHeight : pixelWidth,
+    height: isSideways ? pixelWidth : pixelHeight,
+    rotation,
+  };
+};
+
+// The quad's corners in pixels, for clipping fills on a canvas of the given size.
+export const toPixelPolygon = (quad: Quad, canvasWidth: number, canvasHeight: number): Point[] =>
+  quad.map(point => ({ x: (point.x / 100) * canvasWidth, y: (point.y / 100) * canvasHeight }));
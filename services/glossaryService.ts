@@ -0,0 +1,96 @@
+import type { Glossary, GlossaryEntry, GlossaryTerm, TranslatedBlock } from '../types';
+import { isSameLanguage } from './sourceLanguageService';
+
+const GLOSSARY_STORAGE_KEY = 'tomeus.glossaries';
+
+export const loadGlossaries = (): Glossary[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOSSARY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossaries = (glossaries: Glossary[]) => {
+  try {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(glossaries));
+  } catch (error) {
+    console.warn("Could not persist glossaries:", error);
+  }
+};
+
+export const createGlossary = (name: string): Glossary => ({
+  id: crypto.randomUUID(),
+  name,
+  isEnabled: true,
+  entries: [],
+});
+
+export const createGlossaryEntry = (): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  source: '',
+  target: '',
+  doNotTranslate: false,
+  language: '',
+});
+
+/**
+ * The usable entries of all enabled glossaries, as captured when a translation is queued.
+ */
+export const getActiveGlossaryEntries = (glossaries: Glossary[]): GlossaryEntry[] =>
+  glossaries
+    .filter(glossary => glossary.isEnabled)
+    .flatMap(glossary => glossary.entries)
+    .filter(entry => entry.source.trim() && (entry.doNotTranslate || entry.target.trim()));
+
+/**
+ * Resolves glossary entries for one target language. Entries for a base language also apply to
+ * its variants, and later entries for the same source term win.
+ */
+export const getGlossaryTerms = (entries: GlossaryEntry[], targetLanguage: string): GlossaryTerm[] => {
+  const terms = new Map<string, GlossaryTerm>();
+  for (const entry of entries) {
+    if (entry.language && !isSameLanguage(targetLanguage, entry.language)) continue;
+
+    const source = entry.source.trim();
+    terms.set(source.toLowerCase(), {
+      source,
+      target: entry.doNotTranslate ? source : entry.target.trim(),
+      doNotTranslate: entry.doNotTranslate,
+    });
+  }
+  return [...terms.values()];
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts that separate words with spaces, where a term must not match inside a longer word.
+const WORD_CHARACTER = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}]/u;
+
+/**
+ * Whether `text` contains `term`, ignoring case and differences in whitespace. In space-separated
+ * scripts the term must be a whole word, so "IRS" does not match "FIRST".
+ */
+export const containsTerm = (text: string, term: string): boolean => {
+  const trimmed = term.trim();
+  if (!trimmed) return false;
+
+  const pattern = trimmed.split(/\s+/).map(escapeRegExp).join('\\s+');
+  const before = WORD_CHARACTER.test(trimmed[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+  const after = WORD_CHARACTER.test(trimmed[trimmed.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${before}${pattern}${after}`, 'iu').test(text);
+};
+
+// Only the terms that occur in the given texts are sent to the AI, to keep prompts short.
+export const filterTermsForTexts = (terms: GlossaryTerm[], texts: string[]): GlossaryTerm[] =>
+  terms.filter(term => texts.some(text => containsTerm(text, term.source)));
+
+/**
+ * Returns the glossary terms whose source appears in the block's original text but whose
+ * required rendering is missing from its translation.
+ */
+export const findGlossaryViolations = (block: TranslatedBlock, terms: GlossaryTerm[]): GlossaryTerm[] => {
+  if (block.inTargetLanguage || block.isPending) return [];
+  return terms.filter(term => containsTerm(block.originalText, term.source) && !containsTerm(block.translatedText, term.target));
+};
@@ -0,0 +1,103 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import type { SourcePage } from '../types';
+import { nodeCanvasPlatform } from '../lib/nodePlatform';
+import { setCanvasPlatform } from './canvasService';
+import { API_MAX_EDGE, getTileCore, prepareApiImages, readExifOrientation, toPageBox } from './imageService';
+
+setCanvasPlatform(nodeCanvasPlatform);
+
+const createPage = (width: number, height: number): SourcePage =>
+  ({ dataURL: createCanvas(width, height).toDataURL('image/png'), mimeType: 'image/png', width, height });
+
+// A JPEG start followed by an APP1 "Exif" segment holding the given TIFF bytes.
+const jpegWithExif = (tiff: number[]): Blob => {
+  const length = 8 + tiff.length;
+  return new Blob([new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, length >> 8, length & 0xff,
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+    ...tiff,
+  ])]);
+};
+
+// Big-endian TIFF header with one IFD entry: orientation (0x0112), SHORT, count 1, value 6.
+const ORIENTATION_6 = [
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+];
+
+describe('readExifOrientation', () => {
+  it('reads the orientation tag', async () => {
+    expect(await readExifOrientation(jpegWithExif(ORIENTATION_6))).toBe(6);
+  });
+
+  it('treats files that are not JPEGs as upright', async () => {
+    expect(await readExifOrientation(new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])]))).toBe(1);
+  });
+
+  it('treats truncated EXIF data as upright', async () => {
+    // The last two bytes pad the value and are not needed to read it.
+    for (let size = 0; size < ORIENTATION_6.length - 2; size++) {
+      expect(await readExifOrientation(jpegWithExif(ORIENTATION_6.slice(0, size)))).toBe(1);
+    }
+  });
+
+  it('treats an IFD offset outside the file as upright', async () => {
+    const corrupt = [...ORIENTATION_6];
+    corrupt.splice(4, 4, 0x7f, 0xff, 0xff, 0xff);
+    expect(await readExifOrientation(jpegWithExif(corrupt))).toBe(1);
+  });
+});
+
+describe('tiling', () => {
+  // More than twice API_MAX_EDGE wide, so it is split into three overlapping tiles.
+  const WIDE_PAGE_WIDTH = 7000;
+
+  it('sends ordinary pages whole', async () => {
+    const images = await prepareApiImages(createPage(2000, 3000));
+
+    expect(images.map(image => image.region)).toEqual([{ x: 0, y: 0, width: 100, height: 100 }]);
+  });
+
+  it('splits very large pages into overlapping tiles that cover the page', async () => {
+    const regions = (await prepareApiImages(createPage(WIDE_PAGE_WIDTH, 100))).map(image => image.region);
+
+    expect(regions).toHaveLength(3);
+    expect(regions[0].x).toBe(0);
+    expect(regions[2].x + regions[2].width).toBeCloseTo(100);
+    for (const [index, region] of regions.entries()) {
+      expect(region).toMatchObject({ y: 0, height: 100 });
+      expect((region.width / 100) * WIDE_PAGE_WIDTH).toBeLessThanOrEqual(API_MAX_EDGE);
+      if (index > 0) {
+        const previous = regions[index - 1];
+        expect(region.x).toBeLessThan(previous.x + previous.width);
+      }
+    }
+  });
+
+  it('gives every point of the page to exactly one tile core', async () => {
+    const regions = (await prepareApiImages(createPage(WIDE_PAGE_WIDTH, 100))).map(image => image.region);
+    const cores = regions.map(region => getTileCore(region, regions));
+
+    expect(cores[0].x).toBe(0);
+    expect(cores[2].x + cores[2].width).toBeCloseTo(100);
+    for (const [index, core] of cores.entries()) {
+      expect(core).toMatchObject({ y: 0, height: 100 });
+      if (index > 0) {
+        // The cores meet in the middle of the overlap.
+        const previous = regions[index - 1];
+        expect(core.x).toBeCloseTo(cores[index - 1].x + cores[index - 1].width);
+        expect(core.x).toBeCloseTo((regions[index].x + previous.x + previous.width) / 2);
+      }
+    }
+  });
+
+  it('converts boxes from tile to page percentages', () => {
+    const region = { x: 20, y: 10, width: 40, height: 50 };
+
+    expect(toPageBox({ x: 50, y: 50, width: 10, height: 20 }, region)).toEqual({ x: 40, y: 35, width: 4, height: 10 });
+    expect(toPageBox({ x: 0, y: 0, width: 100, height: 100 }, region)).toEqual(region);
+  });
+});
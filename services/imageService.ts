@@ -0,0 +1,202 @@
+import type { BoundingBox, Point, Quad, SourcePage } from '../types';
+import { createCanvas, loadImage } from './canvasService';
+
+// Longest edge, in pixels, of images sent to the AI. Models downscale larger images anyway,
+// and very large inline uploads are rejected.
+export const API_MAX_EDGE = 3072;
+// Pages whose longest edge is more than this many times API_MAX_EDGE are split into tiles,
+// because downscaling them that far makes small print unreadable.
+const TILING_FACTOR = 2;
+// Neighbouring tiles overlap by this fraction of a tile, so text cut by one tile's edge
+// appears whole in the next one.
+const TILE_OVERLAP = 0.15;
+const API_JPEG_QUALITY = 0.9;
+
+// An image prepared for the AI, and the part of the page it covers in percentages.
+export interface ApiImage {
+  base64ImageData: string;
+  mimeType: string;
+  region: BoundingBox;
+}
+
+const FULL_PAGE: BoundingBox = { x: 0, y: 0, width: 100, height: 100 };
+
+/**
+ * Reads the EXIF orientation (1-8) of a JPEG file. Returns 1, "upright", for other formats,
+ * for JPEGs without orientation data and for EXIF data that is truncated or damaged.
+ */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  // The EXIF segment sits at the start of the file.
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  // Whether `size` bytes can be read at `position`; offsets inside EXIF data are not trusted.
+  const fits = (position: number, size: number) => position + size <= view.byteLength;
+  if (!fits(0, 4) || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (fits(offset, 4)) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0".
+    if (marker === 0xffe1 && fits(offset + 4, 4) && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (!fits(tiff, 8)) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (!fits(ifd, 2)) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let index = 0; index < entries; index++) {
+        const entry = ifd + 2 + index * 12;
+        if (!fits(entry, 10)) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    // Start of scan: image data follows, no more metadata.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+/**
+ * Redraws a photo taken with a rotated camera upright, so the pixels sent to the AI, shown in
+ * the overlay and exported all agree. Browsers apply EXIF orientation when drawing an image
+ * element, and the re-encoded copy no longer carries the tag.
+ */
+export const normalizeOrientation = async (dataURL: string, mimeType: string): Promise<SourcePage> => {
+  const image = await loadImage(dataURL);
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create image context to rotate the photo.');
+  }
+  ctx.drawImage(image, 0, 0);
+
+  const outputType = mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+  return {
+    dataURL: canvas.toDataURL(outputType, 0.95),
+    mimeType: outputType,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+// Draws a region of the image, in pixels, scaled down to fit API_MAX_EDGE, and encodes it as JPEG.
+// `masks`, in page percentages, are painted over in black so they never leave the browser.
+const encodeRegion = (
+  image: HTMLImageElement,
+  sx: number,
+  sy: number,
+  sw: number,
+  sh: number,
+  masks: BoundingBox[]
+): string => {
+  const scale = Math.min(1, API_MAX_EDGE / Math.max(sw, sh));
+  const canvas = createCanvas(Math.max(1, Math.round(sw * scale)), Math.max(1, Math.round(sh * scale)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create image context to prepare the page for the AI.');
+  }
+
+  // JPEG has no transparency; transparent areas would otherwise turn black.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = '#000000';
+  for (const mask of masks) {
+    // Rounded outwards, so no sliver of the masked area survives downscaling.
+    const left = Math.floor((((mask.x / 100) * image.naturalWidth - sx) / sw) * canvas.width);
+    const top = Math.floor((((mask.y / 100) * image.naturalHeight - sy) / sh) * canvas.height);
+    const right = Math.ceil(((((mask.x + mask.width) / 100) * image.naturalWidth - sx) / sw) * canvas.width);
+    const bottom = Math.ceil(((((mask.y + mask.height) / 100) * image.naturalHeight - sy) / sh) * canvas.height);
+    ctx.fillRect(left, top, right - left, bottom - top);
+  }
+  return canvas.toDataURL('image/jpeg', API_JPEG_QUALITY).split(',')[1];
+};
+
+// Splits `length` pixels into overlapping spans no longer than API_MAX_EDGE.
+const splitAxis = (length: number): { start: number; size: number }[] => {
+  const count = Math.ceil((length - API_MAX_EDGE * TILE_OVERLAP) / (API_MAX_EDGE * (1 - TILE_OVERLAP)));
+  if (count <= 1) return [{ start: 0, size: length }];
+
+  const size = Math.min(length, Math.ceil(length / (count - (count - 1) * TILE_OVERLAP)));
+  const step = (length - size) / (count - 1);
+  return Array.from({ length: count }, (_, index) => ({ start: Math.round(index * step), size }));
+};
+
+/**
+ * Prepares a page for the AI: downscaled to API_MAX_EDGE, or, for very large scans, split into
+ * overlapping tiles at close to full resolution, with the redacted regions blacked out. The page
+ * itself keeps its full resolution and original pixels for display and export.
+ */
+export const prepareApiImages = async (page: SourcePage, redactions: BoundingBox[] = []): Promise<ApiImage[]> => {
+  const image = await loadImage(page.dataURL);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  if (Math.max(width, height) <= API_MAX_EDGE * TILING_FACTOR) {
+    return [{ base64ImageData: encodeRegion(image, 0, 0, width, height, redactions), mimeType: 'image/jpeg', region: FULL_PAGE }];
+  }
+
+  const columns = splitAxis(width);
+  const rows = splitAxis(height);
+  return rows.flatMap(row => columns.map(column => ({
+    base64ImageData: encodeRegion(image, column.start, row.start, column.size, row.size, redactions),
+    mimeType: 'image/jpeg',
+    region: {
+      x: (column.start / width) * 100,
+      y: (row.start / height) * 100,
+      width: (column.size / width) * 100,
+      height: (row.size / height) * 100,
+    },
+  })));
+};
+
+/**
+ * Prepares one region of a page, given in page percentages, such as a box the user drew by hand.
+ * Redacted regions overlapping it are blacked out as on the whole page.
+ */
+export const prepareRegionImage = async (page: SourcePage, box: BoundingBox, redactions: BoundingBox[] = []): Promise<ApiImage> => {
+  const image = await loadImage(page.dataURL);
+  const sx = (box.x / 100) * image.naturalWidth;
+  const sy = (box.y / 100) * image.naturalHeight;
+  const sw = Math.max(1, Math.round((box.width / 100) * image.naturalWidth));
+  const sh = Math.max(1, Math.round((box.height / 100) * image.naturalHeight));
+  return { base64ImageData: encodeRegion(image, sx, sy, sw, sh, redactions), mimeType: 'image/jpeg', region: box };
+};
+
+/**
+ * Converts a box given in percentages of `region` into percentages of the whole page.
+ */
+export const toPageBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+  x: region.x + (box.x / 100) * region.width,
+  y: region.y + (box.y / 100) * region.height,
+  width: (box.width / 100) * region.width,
+  height: (box.height / 100) * region.height,
+});
+
+export const toPageQuad = (quad: Quad, region: BoundingBox): Quad => quad.map((point: Point) => ({
+  x: region.x + (point.x / 100) * region.width,
+  y: region.y + (point.y / 100) * region.height,
+})) as Quad;
+
+/**
+ * The part of a tile whose blocks are kept when stitching tiles together: the tile minus half
+ * of each overlap with a neighbour, so every point of the page belongs to exactly one tile.
+ */
+export const getTileCore = (region: BoundingBox, regions: BoundingBox[]): BoundingBox => {
+  const left = Math.max(region.x, ...regions.filter(other => other.x < region.x && other.x + other.width > region.x)
+    .map(other => (region.x + other.x + other.width) / 2));
+  const top = Math.max(region.y, ...regions.filter(other => other.y < region.y && other.y + other.height > region.y)
+    .map(other => (region.y + other.y + other.height) / 2));
+  const right = Math.min(region.x + region.width, ...regions.filter(other => other.x > region.x && other.x < region.x + region.width)
+    .map(other => (other.x + region.x + region.width) / 2));
+  const bottom = Math.min(region.y + region.height, ...regions.filter(other => other.y > region.y && other.y < region.y + region.height)
+    .map(other => (other.y + region.y + region.height) / 2));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
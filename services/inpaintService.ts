@@ -0,0 +1,297 @@
+import type { BackgroundFillMode, BlockAppearance, Point, SourcePage, TranslatedBlock } from '../types';
+import { createCanvas, loadImage } from './canvasService';
+import { toPixelPolygon } from './geometryService';
+
+type Rgb = [number, number, number];
+
+interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface SampledColors {
+  background: Rgb;
+  text: Rgb;
+}
+
+// Width, in pixels, of the band around a block that is sampled as its surrounding background.
+const SAMPLE_MARGIN = 4;
+
+// Text color candidates closer than this to the background are treated as the box being blank.
+const MIN_TEXT_DISTANCE = 48;
+
+// Translations are drawn in the original text color only when it stays at least this readable (WCAG ratio).
+const MIN_CONTRAST_RATIO = 3;
+
+// Upper bound on how many pixels inside a block are examined for its text color.
+const MAX_TEXT_SAMPLES = 40000;
+
+// The overlay works on a downscaled copy of the page; exports use full resolution.
+const PREVIEW_MAX_SIZE = 1600;
+
+const DARK_BACKGROUND: Rgb = [17, 24, 39]; // bg-gray-900
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+
+export const toCssColor = ([r, g, b]: Rgb): string => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+const colorDistance = (a: Rgb, b: Rgb): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const relativeLuminance = ([r, g, b]: Rgb): number => {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+const contrastRatio = (a: Rgb, b: Rgb): number => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toPixelRect = (block: TranslatedBlock, canvasWidth: number, canvasHeight: number): PixelRect => {
+  const x = Math.max(0, Math.floor((block.boundingBox.x / 100) * canvasWidth));
+  const y = Math.max(0, Math.floor((block.boundingBox.y / 100) * canvasHeight));
+  return {
+    x,
+    y,
+    width: Math.min(canvasWidth - x, Math.ceil((block.boundingBox.width / 100) * canvasWidth)),
+    height: Math.min(canvasHeight - y, Math.ceil((block.boundingBox.height / 100) * canvasHeight)),
+  };
+};
+
+/**
+ * Estimates a block's background from the median of a thin band around it, and its text color
+ * from the pixels inside the box that differ most from that background.
+ */
+const sampleColors = (ctx: CanvasRenderingContext2D, rect: PixelRect): SampledColors => {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const left = Math.max(0, rect.x - SAMPLE_MARGIN);
+  const top = Math.max(0, rect.y - SAMPLE_MARGIN);
+  const right = Math.min(canvasWidth, rect.x + rect.width + SAMPLE_MARGIN);
+  const bottom = Math.min(canvasHeight, rect.y + rect.height + SAMPLE_MARGIN);
+  const { data } = ctx.getImageData(left, top, right - left, bottom - top);
+  const regionWidth = right - left;
+
+  const ring: Rgb[] = [];
+  const inside: Rgb[] = [];
+  const step = Math.max(1, Math.floor(Math.sqrt((rect.width * rect.height) / MAX_TEXT_SAMPLES)));
+  for (let py = top; py < bottom; py++) {
+    for (let px = left; px < right; px++) {
+      const offset = ((py - top) * regionWidth + (px - left)) * 4;
+      const color: Rgb = [data[offset], data[offset + 1], data[offset + 2]];
+      const isInside = px >= rect.x && px < rect.x + rect.width && py >= rect.y && py < rect.y + rect.height;
+      if (!isInside) {
+        ring.push(color);
+      } else if ((px - rect.x) % step === 0 && (py - rect.y) % step === 0) {
+        inside.push(color);
+      }
+    }
+  }
+
+  // Blocks touching every page edge have no surrounding band, so fall back to the box itself.
+  const backgroundSamples = ring.length > 0 ? ring : inside;
+  const background: Rgb = [0, 1, 2].map(channel => median(backgroundSamples.map(color => color[channel]))) as Rgb;
+
+  const candidates = inside
+    .map(color => ({ color, distance: colorDistance(color, background) }))
+    .sort((a, b) => b.distance - a.distance)
+    .slice(0, Math.max(1, Math.floor(inside.length * 0.1)));
+
+  let text: Rgb = contrastRatio(WHITE, background) >= contrastRatio(BLACK, background) ? WHITE : BLACK;
+  if (candidates.length > 0 && candidates[0].distance >= MIN_TEXT_DISTANCE) {
+    const sum = candidates.reduce((acc, { color }) => [acc[0] + color[0], acc[1] + color[1], acc[2] + color[2]], [0, 0, 0]);
+    const matched: Rgb = [sum[0] / candidates.length, sum[1] / candidates.length, sum[2] / candidates.length];
+    if (contrastRatio(matched, background) >= MIN_CONTRAST_RATIO) {
+      text = matched;
+    }
+  }
+
+  return { background, text };
+};
+
+// Averages a strip of edge colors with its neighbours so single dark pixels don't streak across the fill.
+const smooth = (colors: (Rgb | null)[], radius = 2): (Rgb | null)[] => colors.map((_, index) => {
+  const window = colors.slice(Math.max(0, index - radius), index + radius + 1).filter((c): c is Rgb => c !== null);
+  if (window.length === 0) return null;
+  return [0, 1, 2].map(channel => window.reduce((acc, c) => acc + c[channel], 0) / window.length) as Rgb;
+});
+
+/**
+ * Computes a fill for a rectangle by interpolating the pixels just outside each of its four edges,
+ * which reproduces flat backgrounds and smooth gradients without a visible patch.
+ */
+const inpaintRect = (ctx: CanvasRenderingContext2D, rect: PixelRect, fallback: Rgb): ImageData => {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const { x, y, width, height } = rect;
+
+  const left = Math.max(0, x - 1);
+  const top = Math.max(0, y - 1);
+  const regionWidth = Math.min(canvasWidth, x + width + 1) - left;
+  const regionHeight = Math.min(canvasHeight, y + height + 1) - top;
+  const source = ctx.getImageData(left, top, regionWidth, regionHeight).data;
+
+  const pixelAt = (px: number, py: number): Rgb | null => {
+    if (px < 0 || py < 0 || px >= canvasWidth || py >= canvasHeight) return null;
+    const offset = ((py - top) * regionWidth + (px - left)) * 4;
+    return [source[offset], source[offset + 1], source[offset + 2]];
+  };
+
+  const leftEdge = smooth(Array.from({ length: height }, (_, row) => pixelAt(x - 1, y + row)));
+  const rightEdge = smooth(Array.from({ length: height }, (_, row) => pixelAt(x + width, y + row)));
+  const topEdge = smooth(Array.from({ length: width }, (_, col) => pixelAt(x + col, y - 1)));
+  const bottomEdge = smooth(Array.from({ length: width }, (_, col) => pixelAt(x + col, y + height)));
+
+  const output = ctx.createImageData(width, height);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const samples: [Rgb | null, number][] = [
+        [leftEdge[row], 1 / (col + 1)],
+        [rightEdge[row], 1 / (width - col)],
+        [topEdge[col], 1 / (row + 1)],
+        [bottomEdge[col], 1 / (height - row)],
+      ];
+
+      let totalWeight = 0;
+      const color = [0, 0, 0];
+      for (const [sample, weight] of samples) {
+        if (!sample) continue;
+        totalWeight += weight;
+        color[0] += sample[0] * weight;
+        color[1] += sample[1] * weight;
+        color[2] += sample[2] * weight;
+      }
+
+      const offset = (row * width + col) * 4;
+      const final = totalWeight > 0 ? color.map(c => c / totalWeight) : fallback;
+      output.data[offset] = final[0];
+      output.data[offset + 1] = final[1];
+      output.data[offset + 2] = final[2];
+      output.data[offset + 3] = 255;
+    }
+  }
+
+  return output;
+};
+
+// Restricts drawing to a polygon, so rotated blocks don't cover the content around them.
+const clipToPolygon = (ctx: CanvasRenderingContext2D, polygon: Point[]) => {
+  ctx.beginPath();
+  polygon.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+  ctx.clip();
+};
+
+const paintBackground = (
+  ctx: CanvasRenderingContext2D,
+  rect: PixelRect,
+  mode: BackgroundFillMode,
+  colors: SampledColors,
+  polygon?: Point[]
+) => {
+  ctx.save();
+  if (polygon) clipToPolygon(ctx, polygon);
+
+  if (mode === 'inpaint') {
+    const fill = inpaintRect(ctx, rect, colors.background);
+    if (polygon) {
+      // putImageData ignores the clip, so the fill goes through a scratch canvas.
+      const scratch = createCanvas(fill.width, fill.height);
+      scratch.getContext('2d')?.putImageData(fill, 0, 0);
+      ctx.drawImage(scratch, rect.x, rect.y);
+    } else {
+      ctx.putImageData(fill, rect.x, rect.y);
+    }
+  } else {
+    ctx.fillStyle = toCssColor(mode === 'solid' ? colors.background : DARK_BACKGROUND);
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  }
+
+  ctx.restore();
+};
+
+const textColorFor = (mode: BackgroundFillMode, colors: SampledColors): Rgb => (mode === 'dark' ? WHITE : colors.text);
+
+/**
+ * Paints the background of every block on a canvas that holds the untouched page and returns the
+ * text color to draw each translation with. All blocks are sampled before any is painted so
+ * neighbouring fills don't leak into each other's samples.
+ */
+export const paintBlockBackgrounds = (
+  ctx: CanvasRenderingContext2D,
+  blocks: TranslatedBlock[],
+  mode: BackgroundFillMode
+): string[] => {
+  const { width, height } = ctx.canvas;
+  const rects = blocks.map(block => toPixelRect(block, width, height));
+  const colors = rects.map(rect => (rect.width >= 1 && rect.height >= 1 ? sampleColors(ctx, rect) : null));
+
+  return rects.map((rect, index) => {
+    const sampled = colors[index];
+    if (!sampled) return toCssColor(WHITE);
+    const { quad } = blocks[index];
+    paintBackground(ctx, rect, mode, sampled, quad && toPixelPolygon(quad, width, height));
+    return toCssColor(textColorFor(mode, sampled));
+  });
+};
+
+const loadPreviewCanvas = async (page: SourcePage): Promise<CanvasRenderingContext2D> => {
+  const image = await loadImage(page.dataURL);
+  const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not create image context for background sampling.');
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return ctx;
+};
+
+/**
+ * Computes how each block should look in the interactive overlay. In inpaint mode each block also
+ * gets a small image of its filled background, since CSS alone cannot reproduce gradients.
+ */
+export const computeBlockAppearances = async (
+  page: SourcePage,
+  blocks: TranslatedBlock[],
+  mode: BackgroundFillMode
+): Promise<BlockAppearance[]> => {
+  const ctx = await loadPreviewCanvas(page);
+  const { width, height } = ctx.canvas;
+
+  const rects = blocks.map(block => toPixelRect(block, width, height));
+  const colors = rects.map(rect => (rect.width >= 1 && rect.height >= 1 ? sampleColors(ctx, rect) : null));
+
+  return rects.map((rect, index) => {
+    const sampled = colors[index];
+    if (!sampled) {
+      return { backgroundColor: toCssColor(DARK_BACKGROUND), textColor: toCssColor(WHITE) };
+    }
+
+    const appearance: BlockAppearance = {
+      backgroundColor: toCssColor(mode === 'solid' || mode === 'inpaint' ? sampled.background : DARK_BACKGROUND),
+      textColor: toCssColor(textColorFor(mode, sampled)),
+    };
+
+    if (mode === 'inpaint') {
+      // The patch is computed from the untouched preview, so other blocks' samples are unaffected.
+      const patch = createCanvas(rect.width, rect.height);
+      const patchCtx = patch.getContext('2d');
+      if (patchCtx) {
+        patchCtx.putImageData(inpaintRect(ctx, rect, sampled.background), 0, 0);
+        appearance.backgroundImage = patch.toDataURL('image/png');
+      }
+    }
+
+    return appearance;
+  });
+};
@@ -0,0 +1,65 @@
+import type { Language } from '../types';
+import { LANGUAGES } from '../constants';
+
+const RECENT_STORAGE_KEY = 'tomeus.recentLanguages';
+const MAX_RECENT_LANGUAGES = 5;
+
+// BCP-47 tag for languages that are not in the list.
+const UNDETERMINED_CODE = 'und';
+
+const normalize = (text: string): string => text.trim().toLowerCase();
+
+/**
+ * Looks a language up by its English name, label or BCP-47 code, ignoring case.
+ */
+export const findLanguage = (valueOrCode: string): Language | undefined => {
+  const key = normalize(valueOrCode);
+  return LANGUAGES.find(lang => normalize(lang.value) === key || normalize(lang.label) === key || normalize(lang.code) === key);
+};
+
+/**
+ * Like findLanguage, but always returns a language: names typed in by the user that are not in the
+ * list are passed to the AI as they are and rendered with the Latin script profile.
+ */
+export const getLanguage = (valueOrCode: string): Language => findLanguage(valueOrCode) ?? {
+  value: valueOrCode,
+  label: valueOrCode,
+  nativeName: valueOrCode,
+  code: UNDETERMINED_CODE,
+  script: 'latin',
+};
+
+/**
+ * Returns the languages matching a search query. Matches at the start of a name or code come first.
+ */
+export const searchLanguages = (query: string): Language[] => {
+  const key = normalize(query);
+  if (!key) return LANGUAGES;
+
+  const fields = (lang: Language) => [lang.label, lang.nativeName, lang.code].map(normalize);
+  const prefixMatches = LANGUAGES.filter(lang => fields(lang).some(field => field.startsWith(key)));
+  const otherMatches = LANGUAGES.filter(lang => !prefixMatches.includes(lang) && fields(lang).some(field => field.includes(key)));
+  return [...prefixMatches, ...otherMatches];
+};
+
+export const loadRecentLanguages = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(value => typeof value === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Moves a language to the front of the recently used list and returns the updated list.
+ */
+export const saveRecentLanguage = (value: string): string[] => {
+  const recent = [value, ...loadRecentLanguages().filter(existing => existing !== value)].slice(0, MAX_RECENT_LANGUAGES);
+  try {
+    localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(recent));
+  } catch (error) {
+    console.warn("Could not persist recent languages:", error);
+  }
+  return recent;
+};
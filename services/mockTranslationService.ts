@@ -0,0 +1,65 @@
+import type { DetectedBlock, TranslationProvider } from '../types';
+import { throwIfAborted } from './retryService';
+
+const SAMPLE_BLOCKS: DetectedBlock[] = [
+    { id: 'b1', role: 'heading', originalText: 'Sample Document Title', boundingBox: { x: 10, y: 6, width: 80, height: 8 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b2', role: 'label', originalText: 'Name:', boundingBox: { x: 10, y: 22, width: 20, height: 5 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b3', role: 'value', labelId: 'b2', originalText: 'Jane Doe', boundingBox: { x: 34, y: 22, width: 40, height: 5 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b4', role: 'label', originalText: 'Date of issue:', boundingBox: { x: 10, y: 30, width: 20, height: 5 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b5', role: 'value', labelId: 'b4', originalText: '01.02.2024', boundingBox: { x: 34, y: 30, width: 30, height: 5 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b6', role: 'paragraph', originalText: 'This paragraph stands in for the body text of the document.', boundingBox: { x: 10, y: 42, width: 80, height: 14 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b7', role: 'table-cell', table: { tableId: 't1', row: 0, column: 0 }, originalText: 'Item', boundingBox: { x: 10, y: 60, width: 25, height: 4 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b8', role: 'table-cell', table: { tableId: 't1', row: 0, column: 1 }, originalText: 'Quantity', boundingBox: { x: 35, y: 60, width: 15, height: 4 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b9', role: 'table-cell', table: { tableId: 't1', row: 1, column: 0 }, originalText: 'Notebook', boundingBox: { x: 10, y: 64, width: 25, height: 4 }, detectedLanguage: 'English', languageConfidence: 1 },
+    { id: 'b10', role: 'table-cell', table: { tableId: 't1', row: 1, column: 1 }, originalText: '2', boundingBox: { x: 35, y: 64, width: 15, height: 4 }, detectedLanguage: 'English', languageConfidence: 1 },
+    {
+        id: 'b11',
+        role: 'figure',
+        originalText: 'APPROVED',
+        boundingBox: { x: 62.5, y: 72.3, width: 23, height: 11.4 },
+        quad: [{ x: 62.5, y: 76.9 }, { x: 84, y: 72.3 }, { x: 85.5, y: 79.1 }, { x: 64, y: 83.7 }],
+        detectedLanguage: 'English',
+        languageConfidence: 1,
+    },
+];
+
+// Pause between streamed items, so progress and cancellation can be tried out offline.
+const STREAM_DELAY_MS = 120;
+
+const streamItems = async <T,>(items: T[], signal: AbortSignal | undefined, onPartial: ((partial: T[]) => void) | undefined) => {
+    throwIfAborted(signal);
+    if (!onPartial) return;
+    for (let count = 1; count <= items.length; count++) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        throwIfAborted(signal);
+        onPartial(items.slice(0, count));
+    }
+};
+
+/**
+ * Offline provider that returns a fixed layout without looking at the image.
+ * Its output depends only on the texts and target language, so it is suitable for UI work and tests.
+ */
+export const mockProvider: TranslationProvider = {
+    id: 'mock',
+
+    async detectPage({ signal, onPartial }) {
+        await streamItems(SAMPLE_BLOCKS, signal, onPartial);
+        const formattedText = SAMPLE_BLOCKS.map(block => block.originalText).join('\n\n');
+        return { blocks: SAMPLE_BLOCKS, formattedText };
+    },
+
+    async translateTexts({ texts, targetLanguage, formattedText, glossary = [], signal, onPartial }) {
+        // Glossary terms are substituted so terminology checks can be tried out offline.
+        const applyGlossary = (text: string) => glossary.reduce((result, term) => result.split(term.source).join(term.target), text);
+        const translations = texts.map(text => `[${targetLanguage}] ${applyGlossary(text)}`);
+        await streamItems(translations, signal, onPartial);
+        return {
+            translations,
+            formattedTranslation: formattedText
+                ?.split('\n\n')
+                .map(text => `${text} ([${targetLanguage}] ${text})`)
+                .join('\n\n'),
+        };
+    },
+};
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleService';
+import { ProviderError } from './retryService';
+
+const provider = createOpenAICompatibleProvider({
+  providerId: 'openai-compatible',
+  baseUrl: 'http://localhost:8000/v1/',
+  model: 'vision-model',
+  apiKey: 'secret',
+});
+
+const completion = (content: unknown) => new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(content) } }] }));
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the page image to the chat completions endpoint and reads the blocks', async () => {
+    const fetch = vi.fn(async () => completion({
+      blocks: [{ originalText: 'Name', boundingBox: { x: 10, y: 10, width: 20, height: 5 }, detectedLanguage: 'English', languageConfidence: 0.9 }],
+      formattedText: 'Name',
+    }));
+    vi.stubGlobal('fetch', fetch);
+
+    const layout = await provider.detectPage({ base64ImageData: 'AAAA', mimeType: 'image/png' });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    expect(body.model).toBe('vision-model');
+    expect(body.messages[0].content[0].image_url.url).toBe('data:image/png;base64,AAAA');
+    expect(layout.blocks.map(block => block.originalText)).toEqual(['Name']);
+  });
+
+  it('translates texts without sending an image', async () => {
+    const fetch = vi.fn(async () => completion({ translations: ['Nom', 'Date'] }));
+    vi.stubGlobal('fetch', fetch);
+
+    const response = await provider.translateTexts({ texts: ['Name', 'Date'], targetLanguage: 'French' });
+
+    expect(response.translations).toEqual(['Nom', 'Date']);
+    expect(JSON.stringify(fetch.mock.calls[0])).not.toContain('image_url');
+  });
+
+  it('reports rate limits as retryable errors with the requested delay', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 429, headers: { 'Retry-After': '3' } })));
+
+    const error = await provider.translateTexts({ texts: ['Name'], targetLanguage: 'French' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ status: 429, retryable: true, retryAfterMs: 3000 });
+  });
+});
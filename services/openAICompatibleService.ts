@@ -0,0 +1,140 @@
+import type { ProviderSettings, TranslationProvider } from '../types';
+import {
+    buildDetectionPrompt,
+    buildTextTranslationPrompt,
+    DETECTION_SHAPE_INSTRUCTIONS,
+    parseDetectionResponse,
+    parsePartialDetection,
+    parsePartialTranslations,
+    parseTextTranslationResponse,
+} from './translationPrompt';
+import { isAbortError, parseRetryAfter, ProviderError } from './retryService';
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+    error?: { message?: string };
+}
+
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null } }[];
+}
+
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+// Reads a server-sent event stream of completion chunks and returns the whole message text,
+// passing the text received so far to `onText` as it grows.
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> => {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+            if (!data || data === '[DONE]') continue;
+            try {
+                const chunk: ChatCompletionChunk = JSON.parse(data);
+                text += chunk.choices?.[0]?.delta?.content ?? '';
+            } catch {
+                // Keep-alive comments and malformed events carry no text.
+            }
+        }
+        onText(text);
+    }
+    return text;
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API with image input,
+ * such as a self-hosted vLLM, Ollama or LiteLLM deployment.
+ */
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): TranslationProvider => {
+    // Sends a single user message and returns the text of the model's JSON answer. With `onText`
+    // the answer is streamed and the callback receives the text received so far.
+    const requestCompletion = async (
+        content: MessageContent,
+        signal?: AbortSignal,
+        onText?: (text: string) => void
+    ): Promise<string> => {
+        if (!settings.baseUrl) {
+            throw new Error("No base URL configured for the OpenAI-compatible provider.");
+        }
+
+        const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) {
+            headers.Authorization = `Bearer ${settings.apiKey}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(endpoint, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model: settings.model,
+                    response_format: { type: 'json_object' },
+                    messages: [{ role: 'user', content }],
+                    stream: Boolean(onText),
+                }),
+                signal,
+            });
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            throw new ProviderError(`Could not reach the model server at ${endpoint}.`, { retryable: true });
+        }
+
+        if (response.ok && onText && response.body) {
+            const text = await readEventStream(response.body, onText);
+            if (!text) {
+                throw new ProviderError("The model server returned an empty response.", { retryable: true });
+            }
+            return text;
+        }
+
+        const payload: ChatCompletionResponse = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+            throw new ProviderError(payload.error?.message ?? `The model server responded with HTTP ${response.status}.`, {
+                status: response.status,
+                retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+            });
+        }
+
+        const text = payload.choices?.[0]?.message?.content;
+        if (!text) {
+            throw new ProviderError("The model server returned an empty response.", { retryable: true });
+        }
+
+        return text;
+    };
+
+    return {
+        id: 'openai-compatible',
+        fingerprint: `${settings.baseUrl.replace(/\/+$/, '')}|${settings.model}`,
+
+        async detectPage({ base64ImageData, mimeType, sourceLanguage, signal, onPartial }) {
+            const content = await requestCompletion([
+                { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64ImageData}` } },
+                { type: 'text', text: buildDetectionPrompt(sourceLanguage) + DETECTION_SHAPE_INSTRUCTIONS },
+            ], signal, onPartial && (text => onPartial(parsePartialDetection(text))));
+            return parseDetectionResponse(content);
+        },
+
+        async translateTexts(request) {
+            if (request.texts.length === 0 && !request.formattedText) return { translations: [] };
+
+            const content = await requestCompletion(
+                buildTextTranslationPrompt(request),
+                request.signal,
+                request.onPartial && (text => request.onPartial!(parsePartialTranslations(text)))
+            );
+            return parseTextTranslationResponse(content, request.texts.length);
+        },
+    };
+};
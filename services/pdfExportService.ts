@@ -0,0 +1,83 @@
+import { PDFDocument, StandardFonts, type PDFFont } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { BackgroundFillMode, ScriptProfile, SourcePage, TranslationResult } from '../types';
+import { PDF_RENDER_SCALE } from './documentService';
+import { canvasToBlob, renderTranslatedPage } from './renderService';
+import { getScriptProfile } from './textLayoutService';
+
+// The text layer uses the same font as the rendered translation so every glyph of the target script is covered.
+const loadTextLayerFont = async (pdfDoc: PDFDocument, profile: ScriptProfile): Promise<PDFFont> => {
+  try {
+    const response = await fetch(profile.fontUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    pdfDoc.registerFontkit(fontkit);
+    return await pdfDoc.embedFont(await response.arrayBuffer(), { subset: true });
+  } catch (error) {
+    // Without a Unicode font the text layer can only carry Latin text, but the page images are unaffected.
+    console.warn("Could not load the PDF text layer font, falling back to Helvetica:", error);
+    return pdfDoc.embedFont(StandardFonts.Helvetica);
+  }
+};
+
+// Drops characters the font has no glyph for, since pdf-lib throws on them.
+const toEncodableText = (font: PDFFont, text: string): string => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\s+/g, ' ').trim())
+    .filter(char => supported.has(char.codePointAt(0)!))
+    .join('');
+};
+
+/**
+ * Builds a PDF with one page per source page. Each page shows the translated rendering of the
+ * original and carries an invisible text layer, positioned over each block, so the translation
+ * can be selected, copied and searched.
+ */
+export const exportTranslatedPdf = async (
+  pages: SourcePage[],
+  translationResult: TranslationResult,
+  fillMode: BackgroundFillMode
+): Promise<Blob> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await loadTextLayerFont(pdfDoc, getScriptProfile(translationResult.targetLanguage));
+
+  for (let index = 0; index < pages.length; index++) {
+    const sourcePage = pages[index];
+    const blocks = translationResult.pages[index]?.translationBlocks ?? [];
+
+    const canvas = await renderTranslatedPage(sourcePage, blocks, { fillMode, targetLanguage: translationResult.targetLanguage });
+    const pngBytes = await (await canvasToBlob(canvas)).arrayBuffer();
+    const image = await pdfDoc.embedPng(pngBytes);
+
+    const pageWidth = canvas.width / PDF_RENDER_SCALE;
+    const pageHeight = canvas.height / PDF_RENDER_SCALE;
+    const pdfPage = pdfDoc.addPage([pageWidth, pageHeight]);
+    pdfPage.drawImage(image, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+
+    blocks.forEach(block => {
+      const { boundingBox } = block;
+      const text = toEncodableText(font, block.translatedText);
+      const boxWidth = (boundingBox.width / 100) * pageWidth;
+      const boxHeight = (boundingBox.height / 100) * pageHeight;
+
+      if (!text || boxWidth < 1 || boxHeight < 1) return;
+
+      // Size the text so its selection highlight roughly covers the block.
+      const widthAtOne = font.widthOfTextAtSize(text, 1);
+      const size = Math.max(1, Math.min(boxHeight * 0.8, widthAtOne > 0 ? boxWidth / widthAtOne : boxHeight));
+
+      // PDF coordinates start at the bottom-left corner.
+      pdfPage.drawText(text, {
+        x: (boundingBox.x / 100) * pageWidth,
+        y: pageHeight - ((boundingBox.y / 100) * pageHeight) - boxHeight + (boxHeight - size) / 2,
+        size,
+        font,
+        opacity: 0,
+      });
+    });
+  }
+
+  const bytes = await pdfDoc.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+};
@@ -0,0 +1,104 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import type { TranslationProject, TranslationResult } from '../types';
+import { exportProjectFile, importProjectFile } from './projectFileService';
+
+const result: TranslationResult = {
+  targetLanguage: 'English',
+  sourceLanguage: 'German',
+  pages: [{
+    formattedTranslation: 'Invoice\n\nTotal: 10 EUR',
+    warnings: ['Page 1 was translated in 2 batches.'],
+    translationBlocks: [
+      {
+        originalText: 'Rechnung',
+        translatedText: 'Invoice',
+        boundingBox: { x: 0.1, y: 0.1, width: 0.3, height: 0.05 },
+        role: 'heading',
+        textAlign: 'center',
+        id: 'b1',
+        detectedLanguage: 'German',
+        languageConfidence: 0.9,
+      },
+      {
+        originalText: 'Summe',
+        translatedText: 'Total',
+        boundingBox: { x: 0.1, y: 0.5, width: 0.2, height: 0.04 },
+        quad: [{ x: 0.1, y: 0.5 }, { x: 0.3, y: 0.5 }, { x: 0.3, y: 0.54 }, { x: 0.1, y: 0.54 }],
+        role: 'table-cell',
+        table: { tableId: 't1', row: 2, column: 0 },
+        isEdited: true,
+        memoryMatch: { kind: 'fuzzy', score: 0.92 },
+      },
+    ],
+  }],
+};
+
+const project: Pick<TranslationProject, 'name' | 'fileName' | 'file' | 'targetLanguages' | 'results' | 'redactions'> = {
+  name: 'Invoice',
+  fileName: 'invoice.png',
+  file: new Blob(['image'], { type: 'image/png' }),
+  targetLanguages: ['English'],
+  results: [result],
+  redactions: [[{ box: { x: 0.5, y: 0.8, width: 0.2, height: 0.05 }, source: 'digits' }]],
+};
+
+// The parts of the manifest the tests corrupt, loosely typed so they can hold invalid values.
+interface EditableManifest {
+  results: { pages: { translationBlocks: Record<string, unknown>[] }[] }[];
+  redactions: unknown;
+}
+
+// Rewrites the manifest of an exported project, to simulate a hand-edited or corrupted file.
+const withManifest = async (edit: (manifest: EditableManifest) => void): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await exportProjectFile(project));
+  const manifest = JSON.parse(await zip.file('project.json')!.async('string'));
+  edit(manifest);
+  zip.file('project.json', JSON.stringify(manifest));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+describe('project files', () => {
+  it('imports what it exports', async () => {
+    const imported = await importProjectFile(await exportProjectFile(project));
+
+    expect(imported.name).toBe('Invoice');
+    expect(imported.fileName).toBe('invoice.png');
+    expect(await imported.file.text()).toBe('image');
+    expect(imported.targetLanguages).toEqual(['English']);
+    expect(imported.results).toEqual([result]);
+    expect(imported.redactions).toEqual(project.redactions);
+  });
+
+  it('rejects a block without its translated text', async () => {
+    const file = await withManifest(manifest => {
+      delete manifest.results[0].pages[0].translationBlocks[0].translatedText;
+    });
+
+    await expect(importProjectFile(file)).rejects.toThrow('invalid translation');
+  });
+
+  it('rejects redactions without a box', async () => {
+    const file = await withManifest(manifest => {
+      manifest.redactions = [[{ source: 'digits' }]];
+    });
+
+    await expect(importProjectFile(file)).rejects.toThrow('invalid redactions');
+  });
+
+  it('drops optional block fields with invalid values', async () => {
+    const file = await withManifest(manifest => {
+      const block = manifest.results[0].pages[0].translationBlocks[1];
+      block.role = 'banner';
+      block.quad = [{ x: 0, y: 0 }];
+      block.table = { tableId: 't1', row: -1, column: 'A' };
+    });
+
+    const [imported] = (await importProjectFile(file)).results;
+    const block = imported.pages[0].translationBlocks[1];
+    expect(block.role).toBeUndefined();
+    expect(block.quad).toBeUndefined();
+    expect(block.table).toBeUndefined();
+    expect(block.translatedText).toBe('Total');
+  });
+});
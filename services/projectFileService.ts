@@ -0,0 +1,246 @@
+import JSZip from 'jszip';
+import type {
+  BlockRole,
+  BoundingBox,
+  MemoryMatch,
+  PageTranslation,
+  Point,
+  Quad,
+  Redaction,
+  RedactionSource,
+  TableCellPosition,
+  TextAlign,
+  TranslatedBlock,
+  TranslationProject,
+  TranslationResult,
+} from '../types';
+
+export const PROJECT_FILE_EXTENSION = '.tomeus';
+
+const PROJECT_FORMAT = 'tomeus-project';
+// Bump when the manifest changes shape, and keep reading the older versions below.
+const PROJECT_FORMAT_VERSION = 3;
+const MANIFEST_PATH = 'project.json';
+const SOURCE_FOLDER = 'source/';
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: string;
+  name: string;
+  source: {
+    fileName: string;
+    mimeType: string;
+  };
+  // Version 3: regions masked before each page is sent to the AI, indexed by page.
+  redactions?: Redaction[][];
+  // Version 2: one result per target language.
+  targetLanguages?: string[];
+  results?: TranslationResult[];
+  // Version 1: a single target language.
+  targetLanguage?: string;
+  result?: TranslationResult | null;
+}
+
+/*
+ * Project files are shared between users, so everything read from them is checked. Blocks are
+ * rebuilt field by field: the text and box are required, and optional fields with invalid values
+ * are dropped, as for AI responses.
+ */
+
+const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+const BLOCK_ROLES: BlockRole[] = ['heading', 'paragraph', 'label', 'value', 'table-cell', 'caption', 'figure'];
+const REDACTION_SOURCES: RedactionSource[] = ['manual', 'face', 'digits', 'email', 'mrz'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const readBoundingBox = (value: unknown): BoundingBox | undefined =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.width) && isNumber(value.height)
+    ? { x: value.x, y: value.y, width: value.width, height: value.height }
+    : undefined;
+
+const readPoint = (value: unknown): Point | undefined =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) ? { x: value.x, y: value.y } : undefined;
+
+const readQuad = (value: unknown): Quad | undefined => {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  const points = value.map(readPoint);
+  return points.every(point => point !== undefined) ? points as Quad : undefined;
+};
+
+const readTableCell = (value: unknown): TableCellPosition | undefined =>
+  isRecord(value) && typeof value.tableId === 'string' && isIndex(value.row) && isIndex(value.column)
+    ? { tableId: value.tableId, row: value.row, column: value.column }
+    : undefined;
+
+const readMemoryMatch = (value: unknown): MemoryMatch | undefined =>
+  isRecord(value) && (value.kind === 'exact' || value.kind === 'fuzzy') && isNumber(value.score)
+    ? { kind: value.kind, score: value.score }
+    : undefined;
+
+const invalidTranslation = () => new Error("The project file contains an invalid translation.");
+
+const readBlock = (value: unknown): TranslatedBlock => {
+  const boundingBox = isRecord(value) ? readBoundingBox(value.boundingBox) : undefined;
+  if (!isRecord(value) || typeof value.originalText !== 'string' || typeof value.translatedText !== 'string' || !boundingBox) {
+    throw invalidTranslation();
+  }
+  return {
+    originalText: value.originalText,
+    translatedText: value.translatedText,
+    boundingBox,
+    textAlign: isOneOf(TEXT_ALIGNS, value.textAlign) ? value.textAlign : undefined,
+    rotation: isNumber(value.rotation) ? value.rotation : undefined,
+    quad: readQuad(value.quad),
+    writingMode: value.writingMode === 'vertical' ? 'vertical' : undefined,
+    role: isOneOf(BLOCK_ROLES, value.role) ? value.role : undefined,
+    id: optionalString(value.id),
+    labelId: optionalString(value.labelId),
+    table: readTableCell(value.table),
+    isEdited: value.isEdited === true || undefined,
+    detectedLanguage: optionalString(value.detectedLanguage),
+    languageConfidence: isNumber(value.languageConfidence) ? value.languageConfidence : undefined,
+    memoryMatch: readMemoryMatch(value.memoryMatch),
+    inTargetLanguage: value.inTargetLanguage === true || undefined,
+  };
+};
+
+const readPage = (value: unknown): PageTranslation => {
+  if (!isRecord(value) || typeof value.formattedTranslation !== 'string' || !Array.isArray(value.translationBlocks)) {
+    throw invalidTranslation();
+  }
+  return {
+    translationBlocks: value.translationBlocks.map(readBlock),
+    formattedTranslation: value.formattedTranslation,
+    warnings: isStringArray(value.warnings) ? value.warnings : undefined,
+  };
+};
+
+const readResult = (value: unknown): TranslationResult => {
+  if (!isRecord(value) || typeof value.targetLanguage !== 'string' || !Array.isArray(value.pages)) {
+    throw invalidTranslation();
+  }
+  return {
+    targetLanguage: value.targetLanguage,
+    sourceLanguage: optionalString(value.sourceLanguage),
+    pages: value.pages.map(readPage),
+  };
+};
+
+const readRedaction = (value: unknown): Redaction | undefined => {
+  const box = isRecord(value) ? readBoundingBox(value.box) : undefined;
+  return box && isRecord(value) && isOneOf(REDACTION_SOURCES, value.source) ? { box, source: value.source } : undefined;
+};
+
+// Redactions that cannot be read are an error rather than dropped, so a page is never sent unmasked.
+const readRedactions = (value: unknown): Redaction[][] => {
+  if (!Array.isArray(value)) {
+    throw new Error("The project file contains invalid redactions.");
+  }
+  return value.map((page: unknown) => {
+    const redactions = Array.isArray(page) ? page.map(readRedaction) : [];
+    if (!Array.isArray(page) || !redactions.every(redaction => redaction !== undefined)) {
+      throw new Error("The project file contains invalid redactions.");
+    }
+    return redactions as Redaction[];
+  });
+};
+
+/**
+ * Packs a project into a single file colleagues can open in their own copy of the app:
+ * a ZIP holding the original upload and a versioned JSON manifest with every block and edit.
+ */
+export const exportProjectFile = async (
+  project: Pick<TranslationProject, 'name' | 'fileName' | 'file' | 'targetLanguages' | 'results' | 'redactions'>
+): Promise<Blob> => {
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: project.name,
+    source: {
+      fileName: project.fileName,
+      mimeType: project.file.type,
+    },
+    redactions: project.redactions,
+    targetLanguages: project.targetLanguages,
+    results: project.results,
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  zip.file(`${SOURCE_FOLDER}${project.fileName}`, project.file);
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Reads a file written by exportProjectFile. The imported project gets a fresh id so it never
+ * overwrites a project that is already saved locally.
+ */
+export const importProjectFile = async (file: Blob): Promise<TranslationProject> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("This is not a Tomeus project file.");
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    throw new Error("This is not a Tomeus project file.");
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error("The project file is damaged and could not be read.");
+  }
+
+  if (manifest?.format !== PROJECT_FORMAT) {
+    throw new Error("This is not a Tomeus project file.");
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_FORMAT_VERSION) {
+    throw new Error("This project was saved by a newer version of Tomeus. Please update the app to open it.");
+  }
+
+  const sourceFile = manifest.source && zip.file(`${SOURCE_FOLDER}${manifest.source.fileName}`);
+  if (!sourceFile) {
+    throw new Error("The project file is missing its source document.");
+  }
+
+  const results = manifest.version >= 2
+    ? (Array.isArray(manifest.results) ? manifest.results : []).map(readResult)
+    : (manifest.result ? [readResult(manifest.result)] : []);
+  const targetLanguages = manifest.version >= 2
+    ? (isStringArray(manifest.targetLanguages) ? manifest.targetLanguages : results.map(result => result.targetLanguage))
+    : [manifest.targetLanguage ?? results[0]?.targetLanguage].filter((language): language is string => Boolean(language));
+  const redactions = manifest.version >= 3 ? readRedactions(manifest.redactions) : [];
+
+  const source = await sourceFile.async('blob');
+  const now = Date.now();
+
+  return {
+    id: crypto.randomUUID(),
+    name: manifest.name || manifest.source.fileName,
+    fileName: manifest.source.fileName,
+    file: new Blob([source], { type: manifest.source.mimeType }),
+    targetLanguages,
+    results,
+    redactions,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,101 @@
+import 'fake-indexeddb/auto';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import type { DetectionRequest, Redaction, SourcePage, TranslationProject, TranslationProvider } from '../types';
+import { createProjectJob } from '../hooks/useTranslationQueue';
+import { nodeCanvasPlatform } from '../lib/nodePlatform';
+import { setCanvasPlatform } from './canvasService';
+import { exportProjectFile, importProjectFile } from './projectFileService';
+import { getProject, putProject, saveProject } from './projectStore';
+import { translateDocument } from './translationService';
+
+setCanvasPlatform(nodeCanvasPlatform);
+
+const WIDTH = 200;
+const HEIGHT = 100;
+
+const createWhitePage = (): SourcePage => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  return { dataURL: canvas.toDataURL('image/png'), mimeType: 'image/png', width: WIDTH, height: HEIGHT };
+};
+
+// Records the images sent for detection, and finds no text on them.
+const createRecordingProvider = () => {
+  const detected: DetectionRequest[] = [];
+  const provider: TranslationProvider = {
+    id: 'mock',
+    async detectPage(request) {
+      detected.push(request);
+      return { blocks: [], formattedText: '' };
+    },
+    async translateTexts() {
+      return { translations: [] };
+    },
+  };
+  return { provider, detected };
+};
+
+// The colour of the pixel at the given page percentages in an image sent to the provider.
+const readPixel = async ({ base64ImageData }: DetectionRequest, xPercent: number, yPercent: number) => {
+  const image = await loadImage(Buffer.from(base64ImageData, 'base64'));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const x = Math.floor(image.width * xPercent / 100);
+  const y = Math.floor(image.height * yPercent / 100);
+  return Array.from(ctx.getImageData(x, y, 1, 1).data.slice(0, 3));
+};
+
+describe('redacted projects', () => {
+  const redaction: Redaction = { box: { x: 10, y: 20, width: 30, height: 40 }, source: 'manual' };
+
+  it('keep their redactions through saving, exporting, importing and translating again', async () => {
+    await saveProject({
+      id: 'redacted',
+      fileName: 'passport.png',
+      file: new Blob(['image'], { type: 'image/png' }),
+      targetLanguages: ['German'],
+      results: [],
+      redactions: [[redaction]],
+    });
+
+    const saved = (await getProject('redacted'))!;
+    expect(saved.redactions).toEqual([[redaction]]);
+
+    const imported = await importProjectFile(await exportProjectFile(saved));
+    expect(imported.redactions).toEqual([[redaction]]);
+
+    const job = createProjectJob(imported);
+    const { provider, detected } = createRecordingProvider();
+    await translateDocument([createWhitePage()], {
+      targetLanguages: ['German'],
+      provider,
+      redactions: job.redactions.map(regions => regions.map(region => region.box)),
+      useMemory: false,
+    });
+
+    expect(detected).toHaveLength(1);
+    expect(await readPixel(detected[0], 25, 40)).toEqual([0, 0, 0]);
+    expect(await readPixel(detected[0], 75, 40)).toEqual([255, 255, 255]);
+  });
+
+  it('saved before redaction are restored without any', async () => {
+    const { redactions, ...project }: TranslationProject = {
+      id: 'unredacted',
+      name: 'letter',
+      fileName: 'letter.png',
+      file: new Blob(['image'], { type: 'image/png' }),
+      targetLanguages: [],
+      results: [],
+      redactions: [],
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    await putProject(project as TranslationProject);
+
+    expect((await getProject('unredacted'))!.redactions).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { Redaction, TranslationProject, TranslationResult } from '../types';
+import { PROJECT_STORE, runRequest } from './database';
+
+// Projects saved before redaction have no masked regions.
+type UnredactedProject = Omit<TranslationProject, 'redactions'> & { redactions?: Redaction[][] };
+
+// Projects saved before multiple target languages were supported hold a single result.
+type StoredProject = UnredactedProject | (Omit<UnredactedProject, 'targetLanguages' | 'results'> & {
+  targetLanguage: string;
+  result: TranslationResult | null;
+});
+
+const upgradeProject = (stored: StoredProject): TranslationProject => {
+  const redactions = stored.redactions ?? [];
+  if ('results' in stored) return { ...stored, redactions };
+  const { targetLanguage, result, ...rest } = stored;
+  return { ...rest, targetLanguages: [targetLanguage], results: result ? [result] : [], redactions };
+};
+
+/**
+ * Returns all saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<TranslationProject[]> => {
+  const projects = await runRequest(PROJECT_STORE, 'readonly', store => store.getAll() as IDBRequest<StoredProject[]>);
+  return projects.map(upgradeProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<TranslationProject | undefined> => {
+  const stored = await runRequest(PROJECT_STORE, 'readonly', store => store.get(id) as IDBRequest<StoredProject | undefined>);
+  return stored && upgradeProject(stored);
+};
+
+export const putProject = (project: TranslationProject): Promise<IDBValidKey> => {
+  return runRequest(PROJECT_STORE, 'readwrite', store => store.put(project));
+};
+
+export const deleteProject = (id: string): Promise<undefined> => {
+  return runRequest(PROJECT_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Creates or updates a project, keeping its name and creation time when it already exists.
+ */
+export const saveProject = async (
+  project: Omit<TranslationProject, 'name' | 'createdAt' | 'updatedAt'> & { name?: string }
+): Promise<TranslationProject> => {
+  const existing = await getProject(project.id);
+  const now = Date.now();
+  const saved: TranslationProject = {
+    ...project,
+    name: existing?.name ?? project.name ?? project.fileName,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putProject(saved);
+  return saved;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (project) {
+    await putProject({ ...project, name, updatedAt: Date.now() });
+  }
+};
+
+export const duplicateProject = async (id: string): Promise<TranslationProject | null> => {
+  const project = await getProject(id);
+  if (!project) return null;
+
+  const now = Date.now();
+  const copy: TranslationProject = { ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await putProject(copy);
+  return copy;
+};
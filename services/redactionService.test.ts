@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { findSensitiveText } from './redactionService';
+
+const box = { x: 10, y: 10, width: 20, height: 5 };
+
+describe('findSensitiveText', () => {
+  it('finds numbers, email addresses and MRZ lines', () => {
+    const found = findSensitiveText([
+      { originalText: 'Passport no. 12 345 678', boundingBox: box },
+      { originalText: 'Contact: jane.doe@example.org', boundingBox: box },
+      { originalText: 'P<UTODOE<<JANE<<<<<<<<<<<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159<<<<<<<<<<<<<<06', boundingBox: box },
+    ]);
+
+    expect(found.map(redaction => redaction.source)).toEqual(['digits', 'email', 'mrz']);
+  });
+
+  it('leaves ordinary text alone', () => {
+    expect(findSensitiveText([{ originalText: 'Issued in Berlin, page 3 of 12', boundingBox: box }])).toEqual([]);
+  });
+
+  it('covers the whole block with a margin', () => {
+    const [redaction] = findSensitiveText([{ originalText: '0049 30 1234567', boundingBox: box }]);
+
+    expect(redaction.box).toEqual({ x: 9.5, y: 9.5, width: 21, height: 6 });
+  });
+});
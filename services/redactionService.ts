@@ -0,0 +1,130 @@
+import type { BoundingBox, DetectedBlock, Redaction, RedactionSource, SourcePage } from '../types';
+import { loadImage } from './canvasService';
+
+// Runs of at least this many digits, allowing spaces, dots and dashes between them, are treated
+// as identifiers such as ID, passport, account or phone numbers.
+const MIN_DIGIT_RUN = 6;
+const DIGIT_RUN = new RegExp(`\\d(?:[\\s.\\-/]?\\d){${MIN_DIGIT_RUN - 1},}`);
+// Machine-readable zone lines of passports and ID cards: 30, 36 or 44 characters of A-Z, 0-9 and '<'.
+const MRZ_LINE = /^[A-Z0-9<]{28,46}$/;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/i;
+// Detected regions are grown by this much, in percent, so the edges of faces and glyphs are covered too.
+const REDACTION_MARGIN = 0.5;
+
+// The parts of the Shape Detection API used here. Only some browsers ship it, so it is not in the DOM typings.
+interface DetectedShape {
+  boundingBox: DOMRectReadOnly;
+  rawValue?: string;
+}
+
+interface ShapeDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedShape[]>;
+}
+
+type ShapeDetectorConstructor = new (options?: Record<string, unknown>) => ShapeDetector;
+
+const getDetector = (name: 'FaceDetector' | 'TextDetector'): ShapeDetectorConstructor | undefined =>
+  (globalThis as unknown as Record<string, ShapeDetectorConstructor | undefined>)[name];
+
+// Text already read from a page, with where it is. Its blocks can be checked without looking at the image.
+type KnownText = Pick<DetectedBlock, 'originalText' | 'boundingBox'>;
+
+/**
+ * How much Detect can find on a page: faces and text with the Shape Detection API, only the
+ * text already read from the page without it, or nothing on a page that has not been read yet.
+ */
+export type RedactionDetection = 'shapes' | 'text' | 'none';
+
+export const getRedactionDetection = (knownText: KnownText[]): RedactionDetection => {
+  if (getDetector('FaceDetector') || getDetector('TextDetector')) return 'shapes';
+  return knownText.length > 0 ? 'text' : 'none';
+};
+
+// Classifies a line of detected text, or returns null when it looks harmless.
+const classifyText = (text: string): RedactionSource | null => {
+  const compact = text.replace(/\s+/g, '');
+  if (MRZ_LINE.test(compact) && compact.includes('<')) return 'mrz';
+  if (EMAIL.test(text)) return 'email';
+  if (DIGIT_RUN.test(text)) return 'digits';
+  return null;
+};
+
+const growBox = (box: BoundingBox): BoundingBox => {
+  const x = Math.max(0, box.x - REDACTION_MARGIN);
+  const y = Math.max(0, box.y - REDACTION_MARGIN);
+  return {
+    x,
+    y,
+    width: Math.min(100, box.x + box.width + REDACTION_MARGIN) - x,
+    height: Math.min(100, box.y + box.height + REDACTION_MARGIN) - y,
+  };
+};
+
+/**
+ * Checks text already read from a page, e.g. by an earlier translation, for MRZ lines, email
+ * addresses and long digit sequences. Blocks are redacted as a whole, since only their outline is known.
+ */
+export const findSensitiveText = (knownText: KnownText[]): Redaction[] => knownText.flatMap(({ originalText, boundingBox }) => {
+  const source = originalText.split('\n').map(classifyText).find(Boolean);
+  return source ? [{ box: growBox(boundingBox), source }] : [];
+});
+
+const toRedactionBox = (rect: DOMRectReadOnly, width: number, height: number): BoundingBox => growBox({
+  x: (rect.x / width) * 100,
+  y: (rect.y / height) * 100,
+  width: (rect.width / width) * 100,
+  height: (rect.height / height) * 100,
+});
+
+/**
+ * Looks for faces, long digit sequences, email addresses and MRZ lines on a page, entirely in the
+ * browser. The image is searched with the Shape Detection API where the browser has it; the text
+ * already read from the page is always checked as well. With neither, this throws an error saying
+ * that regions have to be drawn by hand. Detection is a convenience; users should still check the result.
+ */
+export const detectSensitiveRegions = async (page: SourcePage, knownText: KnownText[] = []): Promise<Redaction[]> => {
+  const FaceDetector = getDetector('FaceDetector');
+  const TextDetector = getDetector('TextDetector');
+  if (!FaceDetector && !TextDetector && knownText.length === 0) {
+    throw new Error('This browser cannot find personal data on a page that has not been read yet. Draw the regions to hide by hand instead.');
+  }
+
+  const redactions = findSensitiveText(knownText);
+  if (!FaceDetector && !TextDetector) return redactions;
+
+  const image = await loadImage(page.dataURL);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  if (FaceDetector) {
+    const faces = await new FaceDetector({ fastMode: false, maxDetectedFaces: 10 }).detect(image);
+    redactions.push(...faces.map(face => ({ box: toRedactionBox(face.boundingBox, width, height), source: 'face' as const })));
+  }
+
+  if (TextDetector) {
+    const lines = await new TextDetector().detect(image);
+    for (const line of lines) {
+      const source = classifyText(line.rawValue ?? '');
+      if (source) {
+        redactions.push({ box: toRedactionBox(line.boundingBox, width, height), source });
+      }
+    }
+  }
+
+  return redactions;
+};
+
+const containsCenter = (outer: BoundingBox, inner: BoundingBox): boolean => {
+  const centerX = inner.x + inner.width / 2;
+  const centerY = inner.y + inner.height / 2;
+  return centerX >= outer.x && centerX <= outer.x + outer.width && centerY >= outer.y && centerY <= outer.y + outer.height;
+};
+
+/**
+ * Adds newly detected regions to a page's redactions, skipping those already covered, so
+ * detecting again does not stack duplicates on top of earlier results or hand-drawn boxes.
+ */
+export const mergeRedactions = (existing: Redaction[], detected: Redaction[]): Redaction[] => [
+  ...existing,
+  ...detected.filter(redaction => !existing.some(other => containsCenter(other.box, redaction.box))),
+];
@@ -0,0 +1,63 @@
+import type { BackgroundFillMode, SourcePage, TranslatedBlock } from '../types';
+import { createCanvas, encodeCanvas, loadImage } from './canvasService';
+import { getOrientedBox } from './geometryService';
+import { paintBlockBackgrounds } from './inpaintService';
+import { drawTextInBox, ensureFontLoaded, getScriptProfile } from './textLayoutService';
+
+export interface RenderOptions {
+  fillMode: BackgroundFillMode;
+  targetLanguage: string;
+}
+
+/**
+ * Draws a page at full resolution with its translated blocks painted over the original text.
+ * This is the same compositing the overlay shows, flattened for export.
+ */
+export const renderTranslatedPage = async (
+  page: SourcePage,
+  blocks: TranslatedBlock[],
+  { fillMode, targetLanguage }: RenderOptions
+): Promise<HTMLCanvasElement> => {
+  const profile = getScriptProfile(targetLanguage);
+  const [image] = await Promise.all([loadImage(page.dataURL), ensureFontLoaded(profile)]);
+
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error('Could not create image context for download.');
+  }
+
+  ctx.drawImage(image, 0, 0);
+
+  // Blocks that are already in the target language keep the original pixels.
+  const translatedBlocks = blocks.filter(block => !block.inTargetLanguage);
+  const textColors = paintBlockBackgrounds(ctx, translatedBlocks, fillMode);
+
+  translatedBlocks.forEach((block, index) => {
+    const box = getOrientedBox(block, canvas.width, canvas.height);
+    if (box.width < 1 || box.height < 1) return;
+
+    drawTextInBox(ctx, block.translatedText, box, {
+      profile,
+      color: textColors[index],
+      textAlign: block.textAlign,
+      writingMode: block.writingMode,
+    });
+  });
+
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> => encodeCanvas(canvas, type);
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,90 @@
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// HTTP statuses worth retrying: rate limits, timeouts and temporary server problems.
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * An error from a translation backend that knows whether trying again can help.
+ */
+export class ProviderError extends Error {
+    status?: number;
+    retryable: boolean;
+    // Delay requested by the server, e.g. from a Retry-After header.
+    retryAfterMs?: number;
+
+    constructor(message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = options.status;
+        this.retryable = options.retryable ?? (options.status !== undefined && RETRYABLE_STATUSES.has(options.status));
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/**
+ * Parses a Retry-After header, which holds either seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const isRetryable = (error: unknown): error is ProviderError => error instanceof ProviderError && error.retryable;
+
+// fetch and the Gemini SDK both reject with a DOMException named "AbortError" when cancelled.
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+export const throwIfAborted = (signal: AbortSignal | undefined) => {
+    if (signal?.aborted) {
+        throw new DOMException('The translation was cancelled.', 'AbortError');
+    }
+};
+
+// Waits for `ms`, but stops early with an AbortError when the signal is aborted.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The translation was cancelled.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    if (signal?.aborted) handleAbort();
+    else signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+export interface RetryNotice {
+    attempt: number;
+    delayMs: number;
+    error: ProviderError;
+}
+
+/**
+ * Runs `operation` and retries it with exponential backoff and jitter while it fails with a
+ * retryable ProviderError. Any other error, and aborting `signal`, ends the retries straight away.
+ */
+export const withRetry = async <T,>(
+    operation: () => Promise<T>,
+    onRetry?: (notice: RetryNotice) => void,
+    signal?: AbortSignal
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await operation();
+        } catch (error) {
+            if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) throw error;
+
+            const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+            const delayMs = Math.min(MAX_DELAY_MS, error.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2);
+            onRetry?.({ attempt, delayMs, error });
+            await delay(delayMs, signal);
+        }
+    }
+};
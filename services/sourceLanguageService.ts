@@ -0,0 +1,94 @@
+import type { PageTranslation, TranslatedBlock, TranslationResult } from '../types';
+import { findLanguage } from './languageService';
+
+export interface SourceLanguageSummary {
+  language: string;
+  // Average confidence of the blocks in that language, from 0 to 1.
+  confidence: number;
+  isPinned: boolean;
+  // Further languages found in a mixed-language document, most frequent first.
+  otherLanguages: string[];
+}
+
+const normalizeLanguage = (language: string): string => language.trim().toLowerCase();
+const VARIANT_SUFFIX = /\s*\(.*\)$/;
+
+/**
+ * Whether text detected as `language` already counts as `target`. A variant matches its base
+ * language ("Portuguese (Brazil)" is Portuguese), but not the other way round: a target variant
+ * such as Chinese (Traditional) needs a matching variant.
+ */
+export const isSameLanguage = (language: string, target: string): boolean => {
+  const detected = findLanguage(language);
+  const wanted = findLanguage(target);
+  if (detected && wanted) {
+    return detected.code === wanted.code || (!wanted.code.includes('-') && detected.code.split('-')[0] === wanted.code);
+  }
+  return normalizeLanguage(language) === normalizeLanguage(target) ||
+    (!VARIANT_SUFFIX.test(target) && normalizeLanguage(language).replace(VARIANT_SUFFIX, '') === normalizeLanguage(target));
+};
+
+// Models occasionally answer in percent instead of a 0-1 fraction.
+const normalizeConfidence = (confidence: unknown): number | undefined => {
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) return undefined;
+  const fraction = confidence > 1 ? confidence / 100 : confidence;
+  return Math.min(1, Math.max(0, fraction));
+};
+
+/**
+ * Marks blocks whose original text is already in the target language and restores their original
+ * text, so mixed-language documents don't get fields "translated" into themselves.
+ */
+export const markBlocksInTargetLanguage = (page: PageTranslation, targetLanguage: string): PageTranslation => ({
+  ...page,
+  translationBlocks: page.translationBlocks.map((block): TranslatedBlock => {
+    const languageConfidence = normalizeConfidence(block.languageConfidence);
+    const inTargetLanguage = block.inTargetLanguage === true ||
+      (Boolean(block.detectedLanguage) && isSameLanguage(block.detectedLanguage!, targetLanguage));
+
+    return {
+      ...block,
+      languageConfidence,
+      inTargetLanguage: inTargetLanguage || undefined,
+      translatedText: inTargetLanguage ? block.originalText : block.translatedText,
+    };
+  }),
+});
+
+/**
+ * Works out the document's source language from the per-block detections, weighting each
+ * block by the length of its text. Blocks already in the target language are not counted.
+ */
+export const summarizeSourceLanguage = (result: TranslationResult): SourceLanguageSummary | null => {
+  if (result.sourceLanguage) {
+    return { language: result.sourceLanguage, confidence: 1, isPinned: true, otherLanguages: [] };
+  }
+
+  const totals = new Map<string, { language: string; weight: number; confidence: number }>();
+  for (const page of result.pages) {
+    for (const block of page.translationBlocks) {
+      if (!block.detectedLanguage || block.inTargetLanguage) continue;
+
+      const key = normalizeLanguage(block.detectedLanguage);
+      const weight = Math.max(1, block.originalText.trim().length);
+      const entry = totals.get(key) ?? { language: block.detectedLanguage.trim(), weight: 0, confidence: 0 };
+      entry.weight += weight;
+      entry.confidence += weight * (block.languageConfidence ?? 1);
+      totals.set(key, entry);
+    }
+  }
+
+  const ranked = [...totals.values()].sort((a, b) => b.weight - a.weight);
+  if (ranked.length === 0) return null;
+
+  const [top, ...others] = ranked;
+  return {
+    language: top.language,
+    confidence: top.confidence / top.weight,
+    isPinned: false,
+    otherLanguages: others.map(entry => entry.language),
+  };
+};
+
+export const countBlocksInTargetLanguage = (result: TranslationResult): number =>
+  result.pages.reduce((count, page) => count + page.translationBlocks.filter(block => block.inTargetLanguage).length, 0);
@@ -0,0 +1,50 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import type { TranslationResult } from '../types';
+import { exportTextDocument } from './textExportService';
+
+// OCR output with a form feed and a vertical tab, which XML does not allow.
+const result: TranslationResult = {
+  targetLanguage: 'English',
+  sourceLanguage: 'German',
+  pages: [{
+    formattedTranslation: 'Fish & Chips <today>',
+    translationBlocks: [{
+      originalText: 'Fisch\u000C & Pommes\u000B <heute>',
+      translatedText: 'Fish & Chips\u0007 <today>',
+      boundingBox: { x: 0.1, y: 0.1, width: 0.5, height: 0.1 },
+      isEdited: true,
+    }],
+  }],
+};
+
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/;
+
+describe('text export', () => {
+  it('writes XLIFF without control characters', async () => {
+    const xliff = await (await exportTextDocument(result, 'xliff', 'Menu "A"')).text();
+
+    expect(xliff).not.toMatch(CONTROL_CHARACTERS);
+    expect(xliff).toContain('<file original="Menu &quot;A&quot;" source-language="de" target-language="en" datatype="plaintext">');
+    expect(xliff).toContain('<source>Fisch &amp; Pommes &lt;heute&gt;</source>');
+    expect(xliff).toContain('<target state="translated">Fish &amp; Chips &lt;today&gt;</target>');
+  });
+
+  it('writes TMX without control characters', async () => {
+    const tmx = await (await exportTextDocument(result, 'tmx', 'Menu')).text();
+
+    expect(tmx).not.toMatch(CONTROL_CHARACTERS);
+    expect(tmx).toContain('<tuv xml:lang="de"><seg>Fisch &amp; Pommes &lt;heute&gt;</seg></tuv>');
+    expect(tmx).toContain('<tuv xml:lang="en"><seg>Fish &amp; Chips &lt;today&gt;</seg></tuv>');
+  });
+
+  it('writes a DOCX package without control characters', async () => {
+    const zip = await JSZip.loadAsync(await exportTextDocument(result, 'docx', 'Menu'));
+    const document = await zip.file('word/document.xml')!.async('string');
+
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining(['[Content_Types].xml', '_rels/.rels', 'word/document.xml']));
+    expect(document).not.toMatch(CONTROL_CHARACTERS);
+    expect(document).toContain('<w:t xml:space="preserve">Fisch &amp; Pommes &lt;heute&gt;</w:t>');
+    expect(document).toContain('<w:t xml:space="preserve">Fish &amp; Chips &lt;today&gt;</w:t>');
+  });
+});
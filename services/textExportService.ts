@@ -0,0 +1,386 @@
+import JSZip from 'jszip';
+import type { TextExportFormat, TranslatedBlock, TranslationResult } from '../types';
+import { compareReadingOrder } from './blockEditService';
+import { buildDocumentStructure, hasDocumentStructure, type DocumentNode } from './documentStructureService';
+import { getScriptProfile } from './textLayoutService';
+import { summarizeSourceLanguage } from './sourceLanguageService';
+import { getLanguage } from './languageService';
+
+export const TEXT_EXPORT_FORMATS: { id: TextExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'docx', label: 'Bilingual document (Word)', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { id: 'html', label: 'Bilingual document (HTML)', extension: 'html', mimeType: 'text/html' },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'text', label: 'Plain text (translation only)', extension: 'txt', mimeType: 'text/plain' },
+  { id: 'xliff', label: 'XLIFF 1.2', extension: 'xlf', mimeType: 'application/x-xliff+xml' },
+  { id: 'tmx', label: 'TMX 1.4', extension: 'tmx', mimeType: 'application/x-tmx+xml' },
+];
+
+// Used for the source side when its language is unknown.
+const UNDETERMINED_LANGUAGE = 'und';
+
+interface Segment {
+  id: string;
+  pageNumber: number;
+  original: string;
+  translation: string;
+  isEdited: boolean;
+  // Where the segment sits in the document's structure, e.g. "Table 1, row 2, column 3".
+  context?: string;
+}
+
+interface ExportContext {
+  title: string;
+  targetLanguage: string;
+  targetCode: string;
+  sourceCode: string;
+  direction: 'ltr' | 'rtl';
+  pageCount: number;
+  segments: Segment[];
+  // The document structure of each page, or null for pages whose blocks have no roles.
+  structures: (DocumentNode[] | null)[];
+}
+
+const hasText = (block: TranslatedBlock): boolean => Boolean(block.originalText.trim() || block.translatedText.trim());
+
+const describeBlockContext = (block: TranslatedBlock, tableNumbers: Map<string, number>): string | undefined => {
+  if (block.table) {
+    return `Table ${tableNumbers.get(block.table.tableId)}, row ${block.table.row + 1}, column ${block.table.column + 1}`;
+  }
+  switch (block.role) {
+    case 'heading': return 'Heading';
+    case 'label': return 'Field label';
+    case 'value': return 'Field value';
+    case 'caption': return 'Caption';
+    case 'figure': return 'Photo or figure';
+    default: return undefined;
+  }
+};
+
+// Flattens the result into numbered segments, page by page in reading order.
+const collectSegments = (result: TranslationResult): Segment[] =>
+  result.pages.flatMap((page, pageIndex) => {
+    const blocks = [...page.translationBlocks].sort(compareReadingOrder).filter(hasText);
+    const tableNumbers = new Map<string, number>();
+    blocks.forEach(block => {
+      if (block.table && !tableNumbers.has(block.table.tableId)) tableNumbers.set(block.table.tableId, tableNumbers.size + 1);
+    });
+    return blocks.map((block, blockIndex) => ({
+      id: `p${pageIndex + 1}-s${blockIndex + 1}`,
+      pageNumber: pageIndex + 1,
+      original: block.originalText.trim(),
+      translation: block.translatedText.trim(),
+      isEdited: Boolean(block.isEdited),
+      context: describeBlockContext(block, tableNumbers),
+    }));
+  });
+
+const collectStructures = (result: TranslationResult): (DocumentNode[] | null)[] =>
+  result.pages.map(page => {
+    const blocks = page.translationBlocks.filter(hasText);
+    return hasDocumentStructure(blocks) ? buildDocumentStructure(blocks) : null;
+  });
+
+// The original is only repeated when it differs from the translation.
+const getOriginal = (block: TranslatedBlock): string | undefined => {
+  const original = block.originalText.trim();
+  return block.inTargetLanguage || !block.translatedText.trim() || original === block.translatedText.trim() ? undefined : original;
+};
+
+const getTranslation = (block: TranslatedBlock): string => block.translatedText.trim() || block.originalText.trim();
+
+// Control characters other than tab and line breaks, which OCR sometimes returns but XML 1.0
+// does not allow even as character references; Word and CAT tools refuse files containing them.
+const XML_INVALID_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(XML_INVALID_CHARACTERS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const groupByPage = (context: ExportContext): Segment[][] =>
+  Array.from({ length: context.pageCount }, (_, index) => context.segments.filter(segment => segment.pageNumber === index + 1));
+
+const buildHtml = (context: ExportContext): string => {
+  const cell = (text: string, attributes = '') => `<td${attributes}>${escapeXml(text).replace(/\n/g, '<br>')}</td>`;
+  const toHtml = (text: string) => escapeXml(text).replace(/\n/g, '<br>');
+  const bilingual = (block: TranslatedBlock) => {
+    const original = getOriginal(block);
+    return `<span lang="${context.targetCode}" dir="${context.direction}">${toHtml(getTranslation(block))}</span>`
+      + (original ? `<span class="o">${toHtml(original)}</span>` : '');
+  };
+  const renderNode = (node: DocumentNode): string => {
+    switch (node.kind) {
+      case 'heading':
+        return `<h3>${bilingual(node.block)}</h3>`;
+      case 'paragraph':
+      case 'caption':
+      case 'figure':
+        return `<p class="${node.kind}">${bilingual(node.block)}</p>`;
+      case 'field':
+        return `<dl><dt>${bilingual(node.label)}</dt><dd>${node.values.map(bilingual).join('<br>')}</dd></dl>`;
+      case 'table':
+        return `<table>\n${node.rows
+          .map((row, rowIndex) => `<tr>${row.map(blocks => `<${rowIndex === 0 ? 'th' : 'td'}>${blocks.map(bilingual).join('<br>')}</${rowIndex === 0 ? 'th' : 'td'}>`).join('')}</tr>`)
+          .join('\n')}\n</table>`;
+    }
+  };
+
+  const tables = groupByPage(context).map((segments, index) => {
+    const heading = context.pageCount > 1 ? `<h2>Page ${index + 1}</h2>\n` : '';
+    const structure = context.structures[index];
+    if (structure) {
+      return `${heading}<section>\n${structure.map(renderNode).join('\n')}\n</section>`;
+    }
+    const rows = segments
+      .map((segment, row) => `<tr><td class="n">${row + 1}</td>${cell(segment.original)}${cell(segment.translation, ` lang="${context.targetCode}" dir="${context.direction}"`)}</tr>`)
+      .join('\n');
+    return `${heading}<table>\n<thead><tr><th class="n">#</th><th>Original</th><th>${escapeXml(context.targetLanguage)}</th></tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(context.title)}</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { border: 1px solid #999; padding: 0.4rem 0.6rem; vertical-align: top; text-align: start; }
+  th { background: #eee; }
+  .n { width: 2.5rem; text-align: right; color: #666; }
+  .o { display: block; color: #666; font-size: 0.85em; }
+  dl { display: grid; grid-template-columns: 14rem 1fr; gap: 0.5rem; margin: 0.4rem 0; }
+  dt { font-weight: bold; }
+  dd { margin: 0; }
+  .caption { font-style: italic; }
+  .figure { border: 1px dashed #999; padding: 0.4rem 0.6rem; }
+  section { margin-bottom: 2rem; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(context.title)}</h1>
+${tables.join('\n')}
+</body>
+</html>
+`;
+};
+
+const buildMarkdown = (context: ExportContext): string => {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+  const bilingual = (block: TranslatedBlock) => {
+    const original = getOriginal(block);
+    return original ? `${getTranslation(block)} *(${original})*` : getTranslation(block);
+  };
+  const renderNode = (node: DocumentNode): string => {
+    switch (node.kind) {
+      case 'heading':
+        return `### ${bilingual(node.block).replace(/\n/g, ' ')}`;
+      case 'paragraph':
+      case 'figure':
+        return bilingual(node.block);
+      case 'caption':
+        return `*${getTranslation(node.block)}*`;
+      case 'field':
+        return `- **${getTranslation(node.label)}** ${node.values.map(bilingual).join('; ')}`;
+      case 'table': {
+        const rows = node.rows.map(row => `| ${row.map(blocks => cell(blocks.map(bilingual).join('\n'))).join(' | ')} |`);
+        return [rows[0], `|${' --- |'.repeat(node.rows[0].length)}`, ...rows.slice(1)].join('\n');
+      }
+    }
+  };
+
+  const sections = groupByPage(context).map((segments, index) => {
+    const heading = context.pageCount > 1 ? `## Page ${index + 1}\n\n` : '';
+    const structure = context.structures[index];
+    if (structure) {
+      return heading + structure.map(renderNode).join('\n\n');
+    }
+    const rows = segments.map((segment, row) => `| ${row + 1} | ${cell(segment.original)} | ${cell(segment.translation)} |`);
+    return `${heading}| # | Original | ${context.targetLanguage} |\n| ---: | --- | --- |\n${rows.join('\n')}`;
+  });
+  return `# ${context.title}\n\n${sections.join('\n\n')}\n`;
+};
+
+const renderPlainNode = (node: DocumentNode): string => {
+  switch (node.kind) {
+    case 'field': {
+      const label = getTranslation(node.label);
+      const separator = /[:：]$/.test(label) ? ' ' : ': ';
+      return label + separator + node.values.map(getTranslation).join(', ');
+    }
+    case 'table':
+      return node.rows.map(row => row.map(blocks => blocks.map(getTranslation).join(' ').replace(/\s*\n\s*/g, ' ')).join('\t')).join('\n');
+    default:
+      return getTranslation(node.block);
+  }
+};
+
+const buildPlainText = (context: ExportContext): string =>
+  groupByPage(context)
+    .map((segments, index) => {
+      const structure = context.structures[index];
+      const text = structure
+        ? structure.map(renderPlainNode).filter(Boolean).join('\n\n')
+        : segments.map(segment => segment.translation).filter(Boolean).join('\n\n');
+      return context.pageCount > 1 ? `--- Page ${index + 1} ---\n${text}` : text;
+    })
+    .join('\n\n') + '\n';
+
+const buildXliff = (context: ExportContext): string => {
+  const units = context.segments
+    .map(segment => {
+      // Corrected segments have been looked at by a person; the rest are raw machine output.
+      const state = segment.isEdited ? 'translated' : 'needs-review-translation';
+      return `      <trans-unit id="${segment.id}">
+        <source>${escapeXml(segment.original)}</source>
+        <target state="${state}">${escapeXml(segment.translation)}</target>
+        <note>Page ${segment.pageNumber}</note>${segment.context ? `
+        <note>${escapeXml(segment.context)}</note>` : ''}
+      </trans-unit>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="${escapeXml(context.title)}" source-language="${context.sourceCode}" target-language="${context.targetCode}" datatype="plaintext">
+    <body>
+${units}
+    </body>
+  </file>
+</xliff>
+`;
+};
+
+const buildTmx = (context: ExportContext): string => {
+  const units = context.segments
+    .filter(segment => segment.original && segment.translation)
+    .map(segment => `    <tu tuid="${segment.id}">
+      <tuv xml:lang="${context.sourceCode}"><seg>${escapeXml(segment.original)}</seg></tuv>
+      <tuv xml:lang="${context.targetCode}"><seg>${escapeXml(segment.translation)}</seg></tuv>
+    </tu>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="Tomeus" creationtoolversion="1.0" segtype="block" o-tmf="tomeus" adminlang="en" srclang="*all*" datatype="plaintext"/>
+  <body>
+${units}
+  </body>
+</tmx>
+`;
+};
+
+// A minimal WordprocessingML package: just the document part, with table borders set inline
+// so it does not depend on a styles part.
+const buildDocx = (context: ExportContext, mimeType: string): Promise<Blob> => {
+  const run = (text: string, bold = false) => {
+    const lines = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+    return `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}${lines.join('<w:br/>')}</w:r>`;
+  };
+  const paragraph = (text: string, bold = false) => `<w:p>${run(text, bold)}</w:p>`;
+  const cell = (text: string, width: number, bold = false, rtl = false) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr><w:p>${rtl ? '<w:pPr><w:bidi/></w:pPr>' : ''}${run(text, bold)}</w:p></w:tc>`;
+  const widths = [600, 4200, 4200];
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`;
+  const rtl = context.direction === 'rtl';
+  const tableProperties = `<w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`;
+
+  // The translation, then the original in grey when it differs.
+  const bilingualRuns = (block: TranslatedBlock, bold = false) => {
+    const original = getOriginal(block);
+    return run(getTranslation(block), bold)
+      + (original ? `<w:r><w:br/></w:r><w:r><w:rPr><w:color w:val="666666"/><w:sz w:val="18"/></w:rPr>${original.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>')}</w:r>` : '');
+  };
+  const bilingualParagraph = (block: TranslatedBlock, bold = false) => `<w:p>${rtl ? '<w:pPr><w:bidi/></w:pPr>' : ''}${bilingualRuns(block, bold)}</w:p>`;
+  const blocksCell = (blocks: TranslatedBlock[], width: number, bold = false) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${blocks.length > 0 ? blocks.map(block => bilingualParagraph(block, bold)).join('') : '<w:p/>'}</w:tc>`;
+  const renderNode = (node: DocumentNode): string => {
+    switch (node.kind) {
+      case 'heading':
+        return bilingualParagraph(node.block, true);
+      case 'paragraph':
+      case 'caption':
+      case 'figure':
+        return bilingualParagraph(node.block);
+      case 'field':
+        return `<w:tbl>${tableProperties}<w:tblGrid><w:gridCol w:w="3000"/><w:gridCol w:w="6000"/></w:tblGrid>`
+          + `<w:tr>${blocksCell([node.label], 3000, true)}${blocksCell(node.values, 6000)}</w:tr></w:tbl>`;
+      case 'table': {
+        const columnWidth = Math.floor(9000 / node.rows[0].length);
+        return `<w:tbl>${tableProperties}<w:tblGrid>${node.rows[0].map(() => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>`
+          + node.rows.map((row, rowIndex) => `<w:tr>${row.map(blocks => blocksCell(blocks, columnWidth, rowIndex === 0)).join('')}</w:tr>`).join('')
+          + '</w:tbl><w:p/>';
+      }
+    }
+  };
+
+  const tables = groupByPage(context).map((segments, index) => {
+    const structure = context.structures[index];
+    if (structure) {
+      return (context.pageCount > 1 ? paragraph(`Page ${index + 1}`, true) : '') + structure.map(renderNode).join('') + '<w:p/>';
+    }
+    const header = `<w:tr>${cell('#', widths[0], true)}${cell('Original', widths[1], true)}${cell(context.targetLanguage, widths[2], true)}</w:tr>`;
+    const rows = segments.map((segment, row) =>
+      `<w:tr>${cell(String(row + 1), widths[0])}${cell(segment.original, widths[1])}${cell(segment.translation, widths[2], false, rtl)}</w:tr>`
+    );
+    const table = `<w:tbl>${tableProperties}`
+      + `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>${header}${rows.join('')}</w:tbl>`;
+    return (context.pageCount > 1 ? paragraph(`Page ${index + 1}`, true) : '') + table + '<w:p/>';
+  });
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraph(context.title, true)}${tables.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`);
+  zip.file('word/document.xml', document);
+  return zip.generateAsync({ type: 'blob', mimeType, compression: 'DEFLATE' });
+};
+
+/**
+ * Builds a structured text document from the translation blocks rather than from the
+ * formatted translation, so every segment keeps its original next to its translation.
+ * Pages whose blocks have roles keep their headings, fields and tables; other pages are
+ * exported as a numbered table of segments.
+ */
+export const exportTextDocument = async (
+  result: TranslationResult,
+  format: TextExportFormat,
+  title: string
+): Promise<Blob> => {
+  const profile = getScriptProfile(result.targetLanguage);
+  const sourceLanguage = summarizeSourceLanguage(result);
+  const context: ExportContext = {
+    title,
+    targetLanguage: result.targetLanguage,
+    targetCode: getLanguage(result.targetLanguage).code,
+    sourceCode: sourceLanguage ? getLanguage(sourceLanguage.language).code : UNDETERMINED_LANGUAGE,
+    direction: profile.direction,
+    pageCount: result.pages.length,
+    segments: collectSegments(result),
+    structures: collectStructures(result),
+  };
+  const { mimeType } = TEXT_EXPORT_FORMATS.find(entry => entry.id === format)!;
+
+  switch (format) {
+    case 'docx':
+      return buildDocx(context, mimeType);
+    case 'html':
+      return new Blob([buildHtml(context)], { type: `${mimeType};charset=utf-8` });
+    case 'markdown':
+      return new Blob([buildMarkdown(context)], { type: `${mimeType};charset=utf-8` });
+    case 'text':
+      return new Blob([buildPlainText(context)], { type: `${mimeType};charset=utf-8` });
+    case 'xliff':
+      return new Blob([buildXliff(context)], { type: mimeType });
+    case 'tmx':
+      return new Blob([buildTmx(context)], { type: mimeType });
+  }
+};
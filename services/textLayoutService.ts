@@ -0,0 +1,261 @@
+import type { ScriptProfile, TextAlign, WritingMode } from '../types';
+import type { OrientedBox } from './geometryService';
+import { SCRIPT_PROFILES } from '../constants';
+import { getLanguage } from './languageService';
+import { loadFont } from './canvasService';
+
+const MIN_FONT_SIZE = 6;
+const LINE_HEIGHT = 1.2;
+// Horizontal padding, in pixels, kept between the text and the edges of its box.
+const PADDING = 2;
+
+// Characters that must not begin a line in CJK typesetting (kinsoku shori).
+const NO_BREAK_BEFORE = new Set(Array.from('、。，．・：；？！）」』】〉》〕］｝ー～…‥々ゝゞヽヾぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ,.:;!?)]}%'));
+
+const RTL_CHARACTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+const STRONG_LTR_CHARACTER = /[A-Za-z\u00C0-\u024F\u0370-\u04FF\u0900-\u097F\u3040-\u30FF\u4E00-\u9FFF\uAC00-\uD7AF]/;
+
+export interface TextBoxOptions {
+  profile: ScriptProfile;
+  color: string;
+  textAlign?: TextAlign;
+  writingMode?: WritingMode;
+}
+
+const profiles = new Map<string, ScriptProfile>();
+
+/**
+ * Returns how text in the given language is rendered. Profiles are cached so callers can
+ * compare them by identity.
+ */
+export const getScriptProfile = (language: string): ScriptProfile => {
+  let profile = profiles.get(language);
+  if (!profile) {
+    const { script, code } = getLanguage(language);
+    // Unlisted languages have no usable tag, so line breaking falls back to English rules.
+    profile = { ...SCRIPT_PROFILES[script], locale: code === 'und' ? 'en' : code };
+    profiles.set(language, profile);
+  }
+  return profile;
+};
+
+export const getFontStack = (profile: ScriptProfile): string => `"${profile.fontFamily}", ${profile.fallbackFonts}`;
+
+// The direction of the first strongly directional character decides, as in the Unicode bidi algorithm.
+export const detectDirection = (text: string, fallback: 'ltr' | 'rtl'): 'ltr' | 'rtl' => {
+  for (const char of text) {
+    if (RTL_CHARACTER.test(char)) return 'rtl';
+    if (STRONG_LTR_CHARACTER.test(char)) return 'ltr';
+  }
+  return fallback;
+};
+
+const loadedFonts = new Map<string, Promise<void>>();
+
+/**
+ * Registers the script's web font with the document so canvas text is shaped with it.
+ * Failures are logged and rendering continues with the fallback fonts.
+ */
+export const ensureFontLoaded = (profile: ScriptProfile): Promise<void> => {
+  let loading = loadedFonts.get(profile.fontFamily);
+  if (!loading) {
+    loading = loadFont(profile.fontFamily, profile.fontUrl)
+      .catch(error => {
+        console.warn(`Could not load the font "${profile.fontFamily}", using system fonts instead:`, error);
+      });
+    loadedFonts.set(profile.fontFamily, loading);
+  }
+  return loading;
+};
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+// Splits text into the pieces a line may break between: words for spaced scripts, and the
+// word or character units Intl.Segmenter finds for Chinese, Japanese and Thai.
+const getBreakSegments = (text: string, locale: string): string[] => {
+  let segmenter = segmenters.get(locale);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+    segmenters.set(locale, segmenter);
+  }
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+};
+
+const getGraphemes = (text: string, locale: string): string[] => {
+  return Array.from(new Intl.Segmenter(locale, { granularity: 'grapheme' }).segment(text), ({ segment }) => segment);
+};
+
+/**
+ * Breaks text into lines no wider than maxWidth at the current ctx.font, honouring explicit
+ * line breaks, script-appropriate break opportunities and CJK line-start prohibitions.
+ * Segments that are wider than a line on their own are broken between graphemes.
+ */
+export const wrapText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  locale: string
+): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let currentLine = '';
+
+    const pushSegment = (segment: string) => {
+      const testLine = currentLine + segment;
+      const fits = ctx.measureText(testLine.trimEnd()).width <= maxWidth;
+      const isProhibitedStart = NO_BREAK_BEFORE.has(Array.from(segment)[0]);
+
+      if (fits || currentLine === '' || isProhibitedStart) {
+        currentLine = testLine;
+        return;
+      }
+
+      lines.push(currentLine.trimEnd());
+      currentLine = segment.trimStart();
+    };
+
+    for (const segment of getBreakSegments(paragraph, locale)) {
+      if (ctx.measureText(segment.trim()).width > maxWidth) {
+        getGraphemes(segment, locale).forEach(pushSegment);
+      } else {
+        pushSegment(segment);
+      }
+    }
+
+    lines.push(currentLine.trimEnd());
+  }
+
+  return lines;
+};
+
+// Breaks text into vertical columns of at most perColumn graphemes. Characters that must not begin
+// a line stay at the end of the previous column instead.
+const wrapColumns = (text: string, perColumn: number, locale: string): string[][] => {
+  const columns: string[][] = [];
+  for (const paragraph of text.split('\n')) {
+    let column: string[] = [];
+    for (const grapheme of getGraphemes(paragraph, locale)) {
+      if (column.length === 0 && !grapheme.trim()) continue;
+      if (column.length >= perColumn && !NO_BREAK_BEFORE.has(grapheme)) {
+        columns.push(column);
+        column = [];
+        if (!grapheme.trim()) continue;
+      }
+      column.push(grapheme);
+    }
+    columns.push(column);
+  }
+  return columns;
+};
+
+// Binary search for the largest font size at which `fitsAt` holds.
+const findFontSize = (maxSize: number, fitsAt: (fontSize: number) => boolean): number => {
+  let low = MIN_FONT_SIZE;
+  let high = Math.max(MIN_FONT_SIZE, Math.floor(maxSize));
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fitsAt(mid)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * Draws text inside a box, shrinking the font until every line fits. The text is centered
+ * vertically, aligned horizontally as hinted by the model, turned with the box and laid out
+ * right-to-left when its content or language calls for it. Vertical blocks are set in columns
+ * with upright characters when the script allows it, and sideways otherwise.
+ */
+export const drawTextInBox = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  box: OrientedBox,
+  options: TextBoxOptions
+) => {
+  if (!text.trim()) return;
+
+  const { profile, color, writingMode } = options;
+  if (writingMode === 'vertical' && !profile.verticalText) {
+    // Like CSS vertical-rl: the lines are turned a quarter clockwise and stack from right to left.
+    drawTextInBox(ctx, text, { ...box, width: box.height, height: box.width, rotation: box.rotation + 90 }, { ...options, writingMode: 'horizontal' });
+    return;
+  }
+
+  const isVertical = writingMode === 'vertical';
+  const direction = detectDirection(text, profile.direction);
+  const textAlign = options.textAlign ?? 'center';
+  const fontStack = getFontStack(profile);
+  const { width: boxWidth, height: boxHeight } = box;
+  const maxLineWidth = Math.max(1, boxWidth - PADDING * 2);
+
+  const layoutAt = (fontSize: number) => {
+    ctx.font = `${fontSize}px ${fontStack}`;
+    const lines = wrapText(ctx, text, maxLineWidth, profile.locale);
+    const fits = lines.length * fontSize * LINE_HEIGHT <= boxHeight
+      && lines.every(line => ctx.measureText(line).width <= maxLineWidth);
+    return { lines, fits };
+  };
+
+  const perColumnAt = (fontSize: number) => Math.max(1, Math.floor((boxHeight - PADDING * 2) / fontSize));
+  const columnsAt = (fontSize: number) => {
+    const columns = wrapColumns(text, perColumnAt(fontSize), profile.locale);
+    const fits = columns.length * fontSize * LINE_HEIGHT <= boxWidth
+      && columns.every(column => column.length <= perColumnAt(fontSize));
+    return { columns, fits };
+  };
+
+  const fontSize = isVertical
+    ? findFontSize(Math.min(boxHeight, boxWidth / LINE_HEIGHT), size => columnsAt(size).fits)
+    : findFontSize(boxHeight / LINE_HEIGHT, size => layoutAt(size).fits);
+  const fits = isVertical ? columnsAt(fontSize).fits : layoutAt(fontSize).fits;
+  ctx.font = `${fontSize}px ${fontStack}`;
+  const lineHeight = fontSize * LINE_HEIGHT;
+
+  ctx.save();
+  ctx.translate(box.centerX, box.centerY);
+  ctx.rotate((box.rotation * Math.PI) / 180);
+
+  // As a fallback if it's impossible to fit, draw at the smallest size and let it clip.
+  if (!fits) {
+    ctx.beginPath();
+    ctx.rect(-boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight);
+    ctx.clip();
+  }
+
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'top';
+
+  if (isVertical) {
+    const { columns } = columnsAt(fontSize);
+    ctx.textAlign = 'center';
+    const totalWidth = columns.length * lineHeight;
+    columns.forEach((column, columnIndex) => {
+      const centerX = totalWidth / 2 - (columnIndex + 0.5) * lineHeight;
+      column.forEach((grapheme, index) => {
+        ctx.fillText(grapheme, centerX, -boxHeight / 2 + PADDING + index * fontSize);
+      });
+    });
+    ctx.restore();
+    return;
+  }
+
+  const { lines } = layoutAt(fontSize);
+  const textHeight = lines.length * lineHeight;
+  ctx.direction = direction;
+  ctx.textAlign = textAlign;
+
+  const anchorX = textAlign === 'left'
+    ? -boxWidth / 2 + PADDING
+    : textAlign === 'right' ? boxWidth / 2 - PADDING : 0;
+  const startY = -boxHeight / 2 + Math.max(0, (boxHeight - textHeight) / 2);
+
+  lines.forEach((line, index) => {
+    ctx.fillText(line, anchorX, startY + index * lineHeight);
+  });
+
+  ctx.restore();
+};
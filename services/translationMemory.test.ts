@@ -0,0 +1,23 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clearTranslationMemory, forgetTranslation, loadTranslationMemory, rememberTranslation } from './translationMemory';
+
+const remembered = async () => (await loadTranslationMemory('German')).map(entry => [entry.sourceText, entry.targetText]);
+
+describe('forgetTranslation', () => {
+  beforeEach(() => clearTranslationMemory());
+
+  it('removes the remembered translation of a misread text', async () => {
+    await rememberTranslation('Date of issve', 'Ausstellungsdatum', 'English', 'German');
+    await forgetTranslation('Date of issve', 'Ausstellungsdatum', 'English', 'German');
+
+    expect(await remembered()).toEqual([]);
+  });
+
+  it('keeps a different translation of the same text', async () => {
+    await rememberTranslation('Name', 'Vorname', 'English', 'German');
+    await forgetTranslation('Name', 'Name', 'English', 'German');
+
+    expect(await remembered()).toEqual([['Name', 'Vorname']]);
+  });
+});
@@ -0,0 +1,143 @@
+import type { MemoryMatch, TranslationMemoryEntry } from '../types';
+import { MEMORY_STORE, runRequest } from './database';
+import { findLanguage } from './languageService';
+
+// Segments at least this similar to a remembered one are passed to the AI as a reference.
+const FUZZY_THRESHOLD = 0.75;
+// Longer texts are only matched exactly; edit distance grows quadratically with length.
+const MAX_FUZZY_LENGTH = 400;
+
+const normalizeText = (text: string): string => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Regional variants of a source language are written the same way, so only the base subtag counts.
+const sourceLanguageKey = (language: string | undefined): string => {
+  if (!language) return 'und';
+  return (findLanguage(language)?.code ?? language.trim().toLowerCase()).split('-')[0];
+};
+
+const targetLanguageKey = (language: string): string => findLanguage(language)?.code ?? language.trim().toLowerCase();
+
+const toId = (sourceText: string, sourceLanguage: string, targetLanguage: string): string =>
+  [sourceLanguage, targetLanguage, normalizeText(sourceText)].join('\u0000');
+
+/**
+ * Stores a reviewed translation so later runs can reuse it. The original text and language pair
+ * identify the segment; a newer translation of the same segment replaces the older one.
+ */
+export const rememberTranslation = async (
+  sourceText: string,
+  targetText: string,
+  sourceLanguage: string | undefined,
+  targetLanguage: string
+): Promise<void> => {
+  if (!normalizeText(sourceText) || !targetText.trim()) return;
+
+  const source = sourceLanguageKey(sourceLanguage);
+  const target = targetLanguageKey(targetLanguage);
+  const entry: TranslationMemoryEntry = {
+    id: toId(sourceText, source, target),
+    sourceText,
+    targetText,
+    sourceLanguage: source,
+    targetLanguage: target,
+    updatedAt: Date.now(),
+  };
+
+  try {
+    await runRequest(MEMORY_STORE, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn("Could not write to the translation memory:", error);
+  }
+};
+
+/**
+ * Removes a remembered translation, e.g. after its original text turned out to be misread. The
+ * entry is only removed while it still holds `targetText`, so a translation reviewed elsewhere is kept.
+ */
+export const forgetTranslation = async (
+  sourceText: string,
+  targetText: string,
+  sourceLanguage: string | undefined,
+  targetLanguage: string
+): Promise<void> => {
+  const id = toId(sourceText, sourceLanguageKey(sourceLanguage), targetLanguageKey(targetLanguage));
+  try {
+    await runRequest(MEMORY_STORE, 'readwrite', store => {
+      const request = store.get(id) as IDBRequest<TranslationMemoryEntry | undefined>;
+      request.onsuccess = () => {
+        if (request.result?.targetText === targetText) store.delete(id);
+      };
+      return request;
+    });
+  } catch (error) {
+    console.warn("Could not write to the translation memory:", error);
+  }
+};
+
+/**
+ * Loads every remembered translation into the given target language.
+ */
+export const loadTranslationMemory = async (targetLanguage: string): Promise<TranslationMemoryEntry[]> => {
+  try {
+    return await runRequest(MEMORY_STORE, 'readonly', store =>
+      store.index('targetLanguage').getAll(targetLanguageKey(targetLanguage)) as IDBRequest<TranslationMemoryEntry[]>
+    );
+  } catch (error) {
+    console.warn("Could not read the translation memory:", error);
+    return [];
+  }
+};
+
+export const clearTranslationMemory = (): Promise<undefined> => runRequest(MEMORY_STORE, 'readwrite', store => store.clear());
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  // Skip the distance computation when the lengths alone rule out a match.
+  if (longest === 0 || Math.min(a.length, b.length) / longest < FUZZY_THRESHOLD) return 0;
+  return 1 - editDistance(a, b) / longest;
+};
+
+/**
+ * Finds the best remembered translation for a text: an exact match if there is one, otherwise
+ * the most similar entry above the fuzzy threshold.
+ */
+export const findMemoryMatch = (
+  entries: TranslationMemoryEntry[],
+  text: string,
+  sourceLanguage: string | undefined
+): { entry: TranslationMemoryEntry; match: MemoryMatch } | undefined => {
+  const source = sourceLanguageKey(sourceLanguage);
+  const normalized = normalizeText(text);
+  if (!normalized) return undefined;
+
+  // Entries with an unknown source language can match any source, and vice versa.
+  const candidates = entries.filter(entry => entry.sourceLanguage === source || entry.sourceLanguage === 'und' || source === 'und');
+
+  const exact = candidates.find(entry => normalizeText(entry.sourceText) === normalized);
+  if (exact) return { entry: exact, match: { kind: 'exact', score: 1 } };
+
+  if (normalized.length > MAX_FUZZY_LENGTH) return undefined;
+
+  let best: { entry: TranslationMemoryEntry; score: number } | undefined;
+  for (const entry of candidates) {
+    const candidate = normalizeText(entry.sourceText);
+    if (candidate.length > MAX_FUZZY_LENGTH) continue;
+    const score = similarity(normalized, candidate);
+    if (score >= FUZZY_THRESHOLD && score > (best?.score ?? 0)) {
+      best = { entry, score };
+    }
+  }
+  return best && { entry: best.entry, match: { kind: 'fuzzy', score: best.score } };
+};
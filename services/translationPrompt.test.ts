@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseDetectionResponse, parseTextTranslationResponse } from './translationPrompt';
+import { ProviderError } from './retryService';
+
+const box = { x: 10, y: 10, width: 20, height: 5 };
+
+describe('parseDetectionResponse', () => {
+  it('keeps valid fields and drops invalid optional ones', () => {
+    const { blocks } = parseDetectionResponse(JSON.stringify({
+      blocks: [
+        { originalText: 'Name', boundingBox: box, textAlign: 'center', role: 'label', id: 1, table: { tableId: 't1', row: '0', column: 1 } },
+        { originalText: 'Jane', boundingBox: box, textAlign: 'justify', role: 'signature', table: { row: 0 } },
+      ],
+      formattedText: 'Name: Jane',
+    }));
+
+    expect(blocks[0]).toMatchObject({ textAlign: 'center', role: 'label', id: '1', table: { tableId: 't1', row: 0, column: 1 } });
+    expect(blocks[1]).toMatchObject({ textAlign: undefined, role: undefined, table: undefined });
+  });
+
+  it('leaves out blocks without text or bounding box and reports them', () => {
+    const { blocks, warnings } = parseDetectionResponse(JSON.stringify({
+      blocks: ['Name', { boundingBox: box }, { originalText: 'Jane' }, { originalText: 'Doe', boundingBox: box }],
+      formattedText: 'Doe',
+    }));
+
+    expect(blocks.map(block => block.originalText)).toEqual(['Doe']);
+    expect(warnings).toHaveLength(3);
+  });
+
+  it('accepts outlines given as coordinate pairs', () => {
+    const { blocks } = parseDetectionResponse(JSON.stringify({
+      blocks: [{ originalText: 'APPROVED', boundingBox: box, quad: [[10, 12], [30, 10], [30, 15], [10, 15]] }],
+      formattedText: '',
+    }));
+
+    expect(blocks[0].quad).toEqual([{ x: 10, y: 12 }, { x: 30, y: 10 }, { x: 30, y: 15 }, { x: 10, y: 15 }]);
+  });
+
+  it('rejects a response without blocks', () => {
+    expect(() => parseDetectionResponse('[]')).toThrow(ProviderError);
+  });
+});
+
+describe('parseTextTranslationResponse', () => {
+  it('requires one string per text', () => {
+    expect(parseTextTranslationResponse('{"translations": ["Nom"]}', 1).translations).toEqual(['Nom']);
+    expect(() => parseTextTranslationResponse('{"translations": ["Nom", 2]}', 2)).toThrow('Translation 2');
+    expect(() => parseTextTranslationResponse('"Nom"', 1)).toThrow("missing the 'translations' array");
+  });
+});
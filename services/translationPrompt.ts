@@ -0,0 +1,415 @@
+import type { BlockRole, BoundingBox, DetectedBlock, GlossaryTerm, PageLayout, Point, Quad, TableCellPosition, TextTranslationRequest, TextTranslationResponse } from '../types';
+import { clampBoundingBox } from './blockEditService';
+import { getQuadBounds } from './geometryService';
+import { ProviderError } from './retryService';
+
+const buildSourceLanguageHint = (sourceLanguage?: string): string => sourceLanguage
+    ? `The document is written in ${sourceLanguage}; report that language unless a block is clearly written in another one.`
+    : 'Documents may mix several languages, so decide this for every block separately.';
+
+/**
+ * Prompt for the detection stage: finds the text blocks on a page and extracts their text,
+ * without translating anything.
+ */
+export const buildDetectionPrompt = (sourceLanguage?: string): string => `
+        You are an expert document and image analyzer.
+        Your task is to perform two main objectives:
+
+        OBJECTIVE 1: DETAILED BLOCK-LEVEL TEXT DETECTION
+        1.  Detect all distinct text blocks in the image. This includes headings, paragraphs, labels, and even small text. Solid black rectangles are areas hidden for privacy; do not report blocks for them or guess what they contain.
+        2.  For each text block, determine its precise bounding box. The bounding box coordinates (x, y) and dimensions (width, height) MUST be percentages relative to the total image dimensions.
+        3.  Extract the original text from within each bounding box exactly as written. Do not translate it.
+        4.  Identify the language of the original text in each block. Report it as "detectedLanguage" using its English name, including the variant where it matters (e.g. "Japanese", "Chinese (Traditional)", "Portuguese (Brazil)"), together with your confidence from 0 to 1 as "languageConfidence". ${buildSourceLanguageHint(sourceLanguage)}
+        5.  Note how the text is laid out inside each box: its horizontal alignment ("left", "center" or "right") and, if the text is not horizontal, its clockwise rotation in degrees.
+        6.  For text that is rotated, skewed or photographed at an angle, such as stamps, seals and angled labels, also give its exact outline as "quad": the four corners of the text, as percentages like the bounding box, in the order top-left, top-right, bottom-right, bottom-left as the text is read. The bounding box must still enclose the whole outline. Leave "quad" out for ordinary horizontal text.
+        7.  Set "writingMode" to "vertical" for text written in vertical columns, as in traditional Japanese and Chinese, and to "horizontal" otherwise. Give each vertical column group its own tight box rather than one box around neighbouring content.
+        8.  Classify each block with a "role": "heading", "paragraph", "label" (the name of a form field), "value" (what was filled in for a field), "table-cell", "caption", or "figure" (the text of a photo, stamp, seal or logo). Give every block a short "id" that is unique on the page, such as "b1". For each value, set "labelId" to the id of the label it belongs to. For each table cell, set "table" to the table's id and the cell's zero-based "row" and "column", with row 0 being the header row if there is one; use one block per cell.
+        9.  Compile this information into an array of "blocks". This data will be used to create an interactive overlay on the original image.
+
+        OBJECTIVE 2: FORMATTED DOCUMENT TEXT
+        1.  Analyze the overall logical structure of the document. Identify labels and their corresponding values (e.g., "Name: John Doe", "Address: ..."), paragraphs, and important non-text elements (like photos).
+        2.  Create a single, well-formatted text string that represents the entire document in its original language. This string should be for display in a text-only view.
+        3.  For key-value pairs, the format should be: \`Label: Value\`.
+        4.  Arrange all content to match the original document's layout and reading flow. Use the '\\n' character for line breaks to separate distinct sections. Use '\\n\\n' for empty lines.
+        5.  For non-text elements, use a descriptive placeholder in English, e.g., \`[Top Right - Photo of Person]\`.
+
+        FINAL OUTPUT:
+        Return a single JSON object that strictly adheres to the provided schema, containing both "blocks" (for the overlay) and "formattedText" (for the text view).
+    `;
+
+const buildGlossaryInstructions = (glossary: GlossaryTerm[], targetLanguage: string): string => `
+        TERMINOLOGY:
+        The following terms MUST be rendered exactly as given wherever they occur, in every text and in the formatted document.
+        ${glossary.map(term => (term.doNotTranslate
+            ? `- ${JSON.stringify(term.source)}: do not translate, keep it exactly as written`
+            : `- ${JSON.stringify(term.source)}: translate as ${JSON.stringify(term.target)} in ${targetLanguage}`)).join('\n        ')}
+    `;
+
+const buildReferenceInstructions = (references: NonNullable<TextTranslationRequest['references']>): string => `
+        APPROVED TRANSLATIONS:
+        Reviewers approved the following translations of texts similar to some of the texts below. Reuse their wording and terminology wherever the texts match.
+        ${references.map(reference => `- ${JSON.stringify(reference.source)} => ${JSON.stringify(reference.translation)}`).join('\n        ')}
+    `;
+
+/**
+ * Prompt for the translation stage: translates block texts that were already extracted from a page.
+ * The texts are sent together so they serve as context for each other.
+ */
+export const buildTextTranslationPrompt = ({
+    texts,
+    targetLanguage,
+    sourceLanguage,
+    formattedText,
+    glossary,
+    references,
+}: TextTranslationRequest): string => `
+        You are an expert translator.
+        Translate each text in the JSON array below into ${targetLanguage}. ${sourceLanguage ? `The texts are written in ${sourceLanguage}.` : ''}
+        The texts are the text blocks of one document page in reading order, so use them as context for each other.
+        If a text is already in ${targetLanguage}, or is a number, code or name that should not be translated, return it unchanged.
+        ${glossary && glossary.length > 0 ? buildGlossaryInstructions(glossary, targetLanguage) : ''}
+        ${references && references.length > 0 ? buildReferenceInstructions(references) : ''}
+        ${formattedText ? `
+        Also translate the formatted document below into a single string "formattedTranslation" for a text-only view:
+        1.  Keep its structure, line breaks ('\\n') and placeholders such as \`[Top Right - Photo of Person]\`.
+        2.  For key-value pairs, the format should be: \`OriginalLabel (TranslatedLabel): OriginalValue (TranslatedValue)\`.
+        3.  For paragraphs, combine original and translated text clearly.
+
+        EXAMPLE of the formatted document string output:
+        ---
+        [Top Right - Photo of Person]\\n\\n姓名 (Name): 陈毛毛 (Chen Maomao)\\n\\n性别 (Sex): 男 (Male) 民族 (Ethnicity): 汉 (Han)\\n\\n公民身份号码 (Citizen ID Number): 341103199109233030
+        ---
+
+        FORMATTED DOCUMENT:
+        ${JSON.stringify(formattedText)}
+        ` : ''}
+        Return a single JSON object of the form {"translations": string[]${formattedText ? ', "formattedTranslation": string' : ''}} containing exactly one translation per input text, in the same order, and nothing else.
+
+        TEXTS:
+        ${JSON.stringify(texts)}
+    `;
+
+// Spelled-out version of the detection schema for backends that cannot enforce one natively.
+export const DETECTION_SHAPE_INSTRUCTIONS = `
+        The JSON object MUST have exactly this shape and nothing else (no markdown fences, no commentary):
+        {
+          "blocks": [
+            {
+              "originalText": string,
+              "boundingBox": { "x": number, "y": number, "width": number, "height": number },
+              "textAlign": "left" | "center" | "right",
+              "rotation": number,
+              "quad": [{ "x": number, "y": number }, { "x": number, "y": number }, { "x": number, "y": number }, { "x": number, "y": number }],
+              "writingMode": "horizontal" | "vertical",
+              "id": string,
+              "role": "heading" | "paragraph" | "label" | "value" | "table-cell" | "caption" | "figure",
+              "labelId": string,
+              "table": { "tableId": string, "row": number, "column": number },
+              "detectedLanguage": string,
+              "languageConfidence": number
+            }
+          ],
+          "formattedText": string
+        }
+    `;
+
+// Some backends wrap JSON output in markdown fences even when asked not to. Output that is not
+// valid JSON is usually cut off at the token limit, so asking again is worth it.
+const parseJson = (responseText: string): unknown => {
+    const json = responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    if (!json) {
+        throw new ProviderError("The AI returned an empty response.", { retryable: true });
+    }
+    try {
+        return JSON.parse(json);
+    } catch {
+        throw new ProviderError("The AI response was cut off or is not valid JSON.", { retryable: true });
+    }
+};
+
+// The model might sometimes return escaped newline characters (\\n) instead of actual newlines (\n).
+// We replace them here to ensure correct rendering in the <pre> tag.
+const unescapeNewlines = (text: string): string => text.replace(/\\n/g, '\n');
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+    typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// Accepts numbers sent as strings, which some models do.
+const toNumber = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const BOX_KEYS = ['x', 'y', 'width', 'height'] as const;
+const TEXT_ALIGNS = ['left', 'center', 'right'] as const;
+
+const BLOCK_ROLES: BlockRole[] = ['heading', 'paragraph', 'label', 'value', 'table-cell', 'caption', 'figure'];
+// Guards against absurd table sizes from a confused model.
+const MAX_TABLE_INDEX = 200;
+
+// Accepts ids sent as numbers.
+const toId = (value: unknown): string | undefined => {
+    const id = typeof value === 'number' ? String(value) : value;
+    return typeof id === 'string' && id.trim() ? id.trim() : undefined;
+};
+
+const toTableCell = (value: unknown): TableCellPosition | undefined => {
+    if (!isRecord(value)) return undefined;
+    const tableId = toId(value.tableId);
+    const row = toNumber(value.row);
+    const column = toNumber(value.column);
+    const isIndex = (index: number | undefined): index is number =>
+        index !== undefined && Number.isInteger(index) && index >= 0 && index <= MAX_TABLE_INDEX;
+    return tableId && isIndex(row) && isIndex(column) ? { tableId, row, column } : undefined;
+};
+
+// Accepts corners as {x, y} objects or [x, y] pairs. Returns undefined unless all four are valid.
+const toQuad = (value: unknown): Quad | undefined => {
+    if (!Array.isArray(value) || value.length !== 4) return undefined;
+    const points = value.map((corner: unknown): Point | undefined => {
+        const [x, y] = Array.isArray(corner) ? corner.map(toNumber) : isRecord(corner) ? [toNumber(corner.x), toNumber(corner.y)] : [];
+        return x === undefined || y === undefined ? undefined : { x, y };
+    });
+    return points.every(point => point !== undefined) ? points as Quad : undefined;
+};
+
+// Twice the signed area; zero for outlines whose corners lie on one line.
+const quadArea = (quad: Quad): number =>
+    quad.reduce((sum, point, index) => {
+        const next = quad[(index + 1) % 4];
+        return sum + point.x * next.y - next.x * point.y;
+    }, 0);
+
+/**
+ * Checks one block from the detection response. Returns the cleaned block, or the reason it
+ * cannot be used. Optional fields with invalid values are dropped rather than failing the block.
+ */
+const validateBlock = (item: unknown, index: number): { block: DetectedBlock } | { problem: string } => {
+    const label = `Block ${index + 1}`;
+    if (!isRecord(item)) {
+        return { problem: `${label} is not an object.` };
+    }
+
+    const originalText = typeof item.originalText === 'number' ? String(item.originalText) : item.originalText;
+    if (typeof originalText !== 'string' || !originalText.trim()) {
+        return { problem: `${label} has no original text.` };
+    }
+
+    const box = item.boundingBox;
+    if (!isRecord(box)) {
+        return { problem: `${label} ("${originalText.slice(0, 40)}") has no bounding box.` };
+    }
+    const values = BOX_KEYS.map(key => toNumber(box[key]));
+    const missing = BOX_KEYS.filter((_, keyIndex) => values[keyIndex] === undefined);
+    if (missing.length > 0) {
+        return { problem: `${label} ("${originalText.slice(0, 40)}") has an invalid bounding box: ${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} not a number.` };
+    }
+    const [x, y, width, height] = values as number[];
+
+    return {
+        block: {
+            originalText,
+            boundingBox: { x, y, width, height },
+            textAlign: isOneOf(TEXT_ALIGNS, item.textAlign) ? item.textAlign : undefined,
+            rotation: toNumber(item.rotation) || undefined,
+            quad: toQuad(item.quad),
+            writingMode: item.writingMode === 'vertical' ? 'vertical' : undefined,
+            role: isOneOf(BLOCK_ROLES, item.role) ? item.role : undefined,
+            id: toId(item.id),
+            labelId: toId(item.labelId),
+            table: toTableCell(item.table),
+            detectedLanguage: typeof item.detectedLanguage === 'string' && item.detectedLanguage.trim() ? item.detectedLanguage.trim() : undefined,
+            languageConfidence: toNumber(item.languageConfidence),
+        },
+    };
+};
+
+const isOutsidePage = ({ x, y, width, height }: BoundingBox): boolean =>
+    x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > 100 || y + height > 100;
+
+/**
+ * Parses and validates the JSON text returned by a provider for the detection stage.
+ * Malformed blocks are dropped and bounding boxes are repaired where possible; both are reported
+ * in the layout's warnings. Throws if the payload as a whole does not have the expected structure.
+ */
+export const parseDetectionResponse = (responseText: string): PageLayout => {
+    const parsedJson = parseJson(responseText);
+
+    if (!isRecord(parsedJson) || !Array.isArray(parsedJson.blocks)) {
+        throw new ProviderError("The AI response is missing the 'blocks' array.", { retryable: true });
+    }
+
+    const warnings: string[] = [];
+    const blocks: DetectedBlock[] = [];
+    const items: unknown[] = parsedJson.blocks;
+    items.forEach((item, index) => {
+        const result = validateBlock(item, index);
+        if ('problem' in result) {
+            warnings.push(`${result.problem} It was left out.`);
+        } else {
+            blocks.push(result.block);
+        }
+    });
+
+    // Some models answer in fractions of the page instead of percentages.
+    if (blocks.length > 0 && blocks.every(({ boundingBox }) => BOX_KEYS.every(key => Math.abs(boundingBox[key]) <= 1))) {
+        blocks.forEach(block => {
+            const { x, y, width, height } = block.boundingBox;
+            block.boundingBox = { x: x * 100, y: y * 100, width: width * 100, height: height * 100 };
+            block.quad = block.quad?.map(point => ({ x: point.x * 100, y: point.y * 100 })) as Quad | undefined;
+        });
+        warnings.push('Bounding boxes were given as fractions of the page and were converted to percentages.');
+    }
+
+    // The outline is kept inside the page and decides the bounding box, so the two always agree.
+    let invalidQuads = 0;
+    blocks.forEach(block => {
+        if (!block.quad) return;
+        const quad = block.quad.map(point => ({
+            x: Math.min(100, Math.max(0, point.x)),
+            y: Math.min(100, Math.max(0, point.y)),
+        })) as Quad;
+        if (Math.abs(quadArea(quad)) < 0.01) {
+            block.quad = undefined;
+            invalidQuads++;
+            return;
+        }
+        block.quad = quad;
+        block.boundingBox = getQuadBounds(quad);
+    });
+    if (invalidQuads > 0) {
+        warnings.push(`${invalidQuads === 1 ? '1 text outline was' : `${invalidQuads} text outlines were`} degenerate and ${invalidQuads === 1 ? 'was' : 'were'} replaced by the bounding box.`);
+    }
+
+    const outside = blocks.filter(block => isOutsidePage(block.boundingBox));
+    outside.forEach(block => {
+        const { x, y, width, height } = block.boundingBox;
+        // A negative size means the corners were swapped.
+        block.boundingBox = clampBoundingBox({
+            x: Math.min(x, x + width),
+            y: Math.min(y, y + height),
+            width: Math.abs(width),
+            height: Math.abs(height),
+        });
+    });
+    if (outside.length > 0) {
+        warnings.push(`${outside.length === 1 ? '1 bounding box' : `${outside.length} bounding boxes`} extended past the page and ${outside.length === 1 ? 'was' : 'were'} moved inside it.`);
+    }
+
+    // Missing or repeated ids are replaced, and links to blocks that are not on the page are dropped.
+    const ids = new Set<string>();
+    blocks.forEach((block, index) => {
+        if (!block.id || ids.has(block.id)) block.id = `b${index + 1}`;
+        while (ids.has(block.id)) block.id += "'";
+        ids.add(block.id);
+    });
+    const labelIds = new Set(blocks.filter(block => block.role === 'label').map(block => block.id));
+    const brokenLinks = blocks.filter(block => block.labelId && !labelIds.has(block.labelId));
+    brokenLinks.forEach(block => {
+        block.labelId = undefined;
+    });
+    if (brokenLinks.length > 0) {
+        warnings.push(`${brokenLinks.length === 1 ? '1 value was' : `${brokenLinks.length} values were`} linked to a label that is not on the page; the ${brokenLinks.length === 1 ? 'link was' : 'links were'} removed.`);
+    }
+
+    let formattedText = typeof parsedJson.formattedText === 'string' ? unescapeNewlines(parsedJson.formattedText) : '';
+    if (!formattedText) {
+        warnings.push('The formatted document text was missing and was rebuilt from the blocks.');
+        formattedText = blocks.map(block => block.originalText).join('\n\n');
+    }
+
+    return { blocks, formattedText, warnings: warnings.length > 0 ? warnings : undefined };
+};
+
+// Returns the index just past the JSON value starting at `start`, or -1 if it is not complete yet.
+const findValueEnd = (text: string, start: number): number => {
+    let depth = 0;
+    let inString = false;
+    for (let index = start; index < text.length; index++) {
+        const char = text[index];
+        if (inString) {
+            if (char === '\\') index++;
+            else if (char === '"') {
+                inString = false;
+                if (depth === 0) return index + 1;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return index + 1;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Extracts the complete items of the array `key` from a JSON response that is still streaming in.
+ * Only objects and strings are supported, which is all the prompts ask for.
+ */
+const parsePartialArray = (responseText: string, key: string): unknown[] => {
+    const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(responseText);
+    if (!match) return [];
+
+    const items: unknown[] = [];
+    let index = match.index + match[0].length;
+    while (index < responseText.length) {
+        const char = responseText[index];
+        if (char === ']') break;
+        if (char !== '{' && char !== '"') {
+            index++;
+            continue;
+        }
+        const end = findValueEnd(responseText, index);
+        if (end === -1) break;
+        try {
+            items.push(JSON.parse(responseText.slice(index, end)));
+        } catch {
+            break;
+        }
+        index = end;
+    }
+    return items;
+};
+
+// Blocks of a detection response that is still streaming in. Invalid blocks are skipped here and
+// reported once the whole response has been parsed.
+export const parsePartialDetection = (responseText: string): DetectedBlock[] =>
+    parsePartialArray(responseText, 'blocks').flatMap((item, index) => {
+        const result = validateBlock(item, index);
+        return 'block' in result ? [result.block] : [];
+    });
+
+export const parsePartialTranslations = (responseText: string): string[] =>
+    parsePartialArray(responseText, 'translations').filter((item): item is string => typeof item === 'string');
+
+/**
+ * Parses the response to a text translation prompt and checks that every text was translated.
+ */
+export const parseTextTranslationResponse = (responseText: string, expectedCount: number): TextTranslationResponse => {
+    const parsedJson = parseJson(responseText);
+    const translations: unknown = isRecord(parsedJson) ? parsedJson.translations : undefined;
+
+    if (!isRecord(parsedJson) || !Array.isArray(translations)) {
+        throw new ProviderError("The AI response is missing the 'translations' array.", { retryable: true });
+    }
+    const invalid = translations.findIndex(item => typeof item !== 'string');
+    if (invalid !== -1) {
+        throw new ProviderError(`Translation ${invalid + 1} in the AI response is not a string.`, { retryable: true });
+    }
+    if (translations.length !== expectedCount) {
+        // Usually the model merged or skipped a text, or the output was cut off.
+        throw new ProviderError(`The AI returned ${translations.length} translations for ${expectedCount} texts.`, { retryable: true });
+    }
+
+    return {
+        translations,
+        formattedTranslation: typeof parsedJson.formattedTranslation === 'string'
+            ? unescapeNewlines(parsedJson.formattedTranslation)
+            : undefined,
+    };
+};
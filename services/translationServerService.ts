@@ -0,0 +1,100 @@
+import type { TranslationProvider, TranslationServerError, TranslationServerErrorCode } from '../types';
+import { isAbortError, parseRetryAfter, ProviderError } from './retryService';
+
+// Where the translation server's API is reachable. The dev server and `vite preview` proxy
+// `/api` to it; deployments can point elsewhere with TRANSLATION_SERVER_URL.
+const SERVER_URL = (process.env.TRANSLATION_SERVER_URL || '/api').replace(/\/+$/, '');
+
+type StreamLine<T, P> = { partial: P } | { result: T } | { error: TranslationServerError };
+
+// What users are told for each error code. Codes without a message here show the server's message.
+const ERROR_MESSAGES: Partial<Record<TranslationServerErrorCode, string>> = {
+    invalid_request: "The translation server could not read the request. Reload the page and try again.",
+    payload_too_large: "This page is too large to send to the translation server.",
+    rate_limited: "You are sending translations too quickly. Please wait a moment.",
+    not_found: `No translation server was found at ${SERVER_URL}.`,
+    method_not_allowed: `No translation server was found at ${SERVER_URL}.`,
+    not_configured: "The translation server has no Gemini API key configured.",
+    upstream_rate_limited: "Gemini is rate limiting requests. Please wait a moment.",
+    internal_error: "The translation server ran into an unexpected error.",
+};
+
+const toProviderError = (error: TranslationServerError): ProviderError =>
+    new ProviderError(ERROR_MESSAGES[error.code] ?? error.message, {
+        status: error.status,
+        retryable: error.retryable,
+        retryAfterMs: error.retryAfterSeconds !== undefined ? error.retryAfterSeconds * 1000 : undefined,
+    });
+
+// Reads the server's newline-delimited JSON stream, passing partial results to `onPartial`,
+// and returns the final result.
+const readStream = async <T, P>(body: ReadableStream<Uint8Array>, onPartial?: (partial: P) => void): Promise<T> => {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const parsed: StreamLine<T, P> = JSON.parse(line);
+            if ('error' in parsed) throw toProviderError(parsed.error);
+            if ('result' in parsed) return parsed.result;
+            onPartial?.(parsed.partial);
+        }
+    }
+    throw new ProviderError("The connection to the translation server was interrupted.", { retryable: true });
+};
+
+const post = async <T, P>(
+    path: string,
+    payload: unknown,
+    signal?: AbortSignal,
+    onPartial?: (partial: P) => void
+): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${SERVER_URL}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+            signal,
+        });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new ProviderError(`Could not reach the translation server at ${SERVER_URL}.`, { retryable: true });
+    }
+
+    if (!response.ok) {
+        const body: { error?: TranslationServerError } = await response.json().catch(() => ({}));
+        if (body.error) throw toProviderError(body.error);
+        throw new ProviderError(`The translation server responded with HTTP ${response.status}.`, {
+            status: response.status,
+            retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+    }
+    if (!response.body) {
+        throw new ProviderError("The translation server returned an empty response.", { retryable: true });
+    }
+    return readStream<T, P>(response.body, onPartial);
+};
+
+/**
+ * Gemini, reached through the translation server so the API key stays on the server.
+ * The server validates the model's answers, so the results are used as they are.
+ */
+export const translationServerProvider: TranslationProvider = {
+    id: 'gemini',
+
+    detectPage({ base64ImageData, mimeType, sourceLanguage, signal, onPartial }) {
+        return post('/detect', { base64ImageData, mimeType, sourceLanguage }, signal, onPartial);
+    },
+
+    async translateTexts({ signal, onPartial, ...request }) {
+        if (request.texts.length === 0 && !request.formattedText) return { translations: [] };
+        return post('/translate', request, signal, onPartial);
+    },
+};
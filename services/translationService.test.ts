@@ -0,0 +1,147 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BoundingBox, DetectedBlock, ProviderSettings, SourcePage, TranslationProvider } from '../types';
+import { nodeCanvasPlatform } from '../lib/nodePlatform';
+import { setCanvasPlatform } from './canvasService';
+import { prepareApiImages } from './imageService';
+import { mockProvider } from './mockTranslationService';
+import { translationServerProvider } from './translationServerService';
+import {
+  createProvider,
+  detectSourcePage,
+  getDefaultProviderSettings,
+  loadProviderSettings,
+  saveProviderSettings,
+  translateDocument,
+} from './translationService';
+
+setCanvasPlatform(nodeCanvasPlatform);
+
+const SETTINGS_STORAGE_KEY = 'tomeus.providerSettings';
+
+const openAISettings: ProviderSettings = {
+  providerId: 'openai-compatible',
+  baseUrl: 'http://localhost:8000/v1/',
+  model: 'vision-model',
+  apiKey: 'secret',
+};
+
+const page: SourcePage = { dataURL: createCanvas(100, 100).toDataURL('image/png'), mimeType: 'image/png', width: 100, height: 100 };
+
+describe('createProvider', () => {
+  it('routes Gemini through the translation server', () => {
+    expect(createProvider({ ...getDefaultProviderSettings(), providerId: 'gemini' })).toBe(translationServerProvider);
+  });
+
+  it('creates an OpenAI-compatible provider for the configured endpoint and model', () => {
+    const provider = createProvider(openAISettings);
+    expect(provider.id).toBe('openai-compatible');
+    expect(provider.fingerprint).toBe('http://localhost:8000/v1|vision-model');
+  });
+
+  it('returns the offline mock', () => {
+    expect(createProvider({ ...getDefaultProviderSettings(), providerId: 'mock' })).toBe(mockProvider);
+  });
+});
+
+describe('provider settings', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does not store the API key unless asked to', () => {
+    saveProviderSettings(openAISettings);
+
+    expect(JSON.parse(storage.get(SETTINGS_STORAGE_KEY)!)).not.toHaveProperty('apiKey');
+    expect(loadProviderSettings()).toEqual({ ...openAISettings, apiKey: '' });
+  });
+
+  it('stores the API key when the user chose to remember it', () => {
+    saveProviderSettings({ ...openAISettings, rememberApiKey: true });
+
+    expect(loadProviderSettings()).toEqual({ ...openAISettings, rememberApiKey: true });
+  });
+
+  it('removes API keys stored without asking', () => {
+    storage.set(SETTINGS_STORAGE_KEY, JSON.stringify(openAISettings));
+
+    expect(loadProviderSettings().apiKey).toBe('');
+    expect(storage.get(SETTINGS_STORAGE_KEY)).not.toContain('secret');
+  });
+});
+
+describe('translateDocument', () => {
+  it('detects each page once and translates its texts into every target language', async () => {
+    // Without onPartial the mock answers at once instead of streaming slowly.
+    const detectPage = vi.fn<TranslationProvider['detectPage']>(request => mockProvider.detectPage({ ...request, onPartial: undefined }));
+    const translateTexts = vi.fn<TranslationProvider['translateTexts']>(request => mockProvider.translateTexts({ ...request, onPartial: undefined }));
+    const provider: TranslationProvider = { id: 'mock', detectPage, translateTexts };
+
+    const results = await translateDocument([page, page], { targetLanguages: ['German', 'French'], provider, useMemory: false });
+
+    expect(detectPage).toHaveBeenCalledTimes(2);
+    expect(translateTexts).toHaveBeenCalledTimes(4);
+    expect(results.map(result => result.targetLanguage)).toEqual(['German', 'French']);
+    expect(results[1].pages[0].translationBlocks[0].translatedText).toBe('[French] Sample Document Title');
+  });
+});
+
+describe('detectSourcePage', () => {
+  it('keeps a block seen by two overlapping tiles once', async () => {
+    // Wide enough to be split into three tiles.
+    const widePage: SourcePage = { dataURL: createCanvas(7000, 100).toDataURL('image/png'), mimeType: 'image/png', width: 7000, height: 100 };
+    const regions = (await prepareApiImages(widePage)).map(image => image.region);
+    // In page percentages: one block inside the overlap of the first two tiles, one only in the last tile.
+    const pageBlocks: DetectedBlock[] = [
+      { id: 'edge', originalText: 'Edge', boundingBox: { x: 34, y: 40, width: 2, height: 20 } },
+      { id: 'end', originalText: 'End', boundingBox: { x: 90, y: 40, width: 5, height: 20 } },
+    ];
+    const toTileBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+      x: ((box.x - region.x) / region.width) * 100,
+      y: ((box.y - region.y) / region.height) * 100,
+      width: (box.width / region.width) * 100,
+      height: (box.height / region.height) * 100,
+    });
+
+    // Reports every block that lies wholly inside the tile, as a model would.
+    let tile = 0;
+    const reported: string[] = [];
+    const provider: TranslationProvider = {
+      id: 'mock',
+      async detectPage() {
+        const region = regions[tile++];
+        const blocks = pageBlocks
+          .filter(({ boundingBox: box }) => box.x >= region.x && box.x + box.width <= region.x + region.width)
+          .map(block => ({ ...block, boundingBox: toTileBox(block.boundingBox, region) }));
+        reported.push(...blocks.map(block => block.originalText));
+        return { blocks, formattedText: blocks.map(block => block.originalText).join('\n') };
+      },
+      async translateTexts() {
+        return { translations: [] };
+      },
+    };
+
+    const layout = await detectSourcePage(widePage, undefined, provider);
+
+    expect(reported).toEqual(['Edge', 'Edge', 'End']);
+    expect(layout.blocks.map(block => block.originalText)).toEqual(['Edge', 'End']);
+    // The edge block belongs to the second tile, whose core holds its center.
+    expect(layout.blocks.map(block => block.id)).toEqual(['t2-edge', 't3-end']);
+    for (const [index, block] of layout.blocks.entries()) {
+      const expected = pageBlocks[index].boundingBox;
+      expect(block.boundingBox.x).toBeCloseTo(expected.x);
+      expect(block.boundingBox.width).toBeCloseTo(expected.width);
+      expect(block.boundingBox.y).toBeCloseTo(expected.y);
+    }
+  });
+});
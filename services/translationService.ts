@@ -0,0 +1,424 @@
+import type {
+    BoundingBox,
+    DetectedBlock,
+    GlossaryEntry,
+    PageLayout,
+    PageTranslation,
+    ProviderSettings,
+    SourcePage,
+    TextTranslationResponse,
+    TranslatedBlock,
+    TranslationMemoryEntry,
+    TranslationProgress,
+    TranslationProvider,
+    TranslationResult,
+} from '../types';
+import { translationServerProvider } from './translationServerService';
+import { createOpenAICompatibleProvider } from './openAICompatibleService';
+import { mockProvider } from './mockTranslationService';
+import { getTileCore, prepareApiImages, prepareRegionImage, toPageBox, toPageQuad } from './imageService';
+import { markBlocksInTargetLanguage } from './sourceLanguageService';
+import { compareReadingOrder } from './blockEditService';
+import { cacheLayout, getCachedLayout } from './detectionCache';
+import { filterTermsForTexts, getGlossaryTerms } from './glossaryService';
+import { findMemoryMatch, loadTranslationMemory } from './translationMemory';
+import { isAbortError, throwIfAborted, withRetry, type RetryNotice } from './retryService';
+
+const SETTINGS_STORAGE_KEY = 'tomeus.providerSettings';
+
+export const getDefaultProviderSettings = (): ProviderSettings => {
+    const configured = process.env.TRANSLATION_PROVIDER;
+    // The build sets TRANSLATION_PROVIDER to "gemini" when a Gemini key is configured for the server.
+    const providerId = configured === 'gemini' || configured === 'openai-compatible' || configured === 'mock'
+        ? configured
+        : 'mock';
+
+    return {
+        providerId,
+        baseUrl: process.env.OPENAI_BASE_URL ?? '',
+        model: process.env.OPENAI_MODEL ?? '',
+        apiKey: '',
+    };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    // localStorage is plain text, so the API key is only written there when the user asked for it.
+    const { apiKey, ...rest } = settings;
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings.rememberApiKey ? settings : rest));
+    } catch (error) {
+        console.warn("Could not persist provider settings:", error);
+    }
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+    const defaults = getDefaultProviderSettings();
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (!stored) return defaults;
+
+        const settings: ProviderSettings = { ...defaults, ...JSON.parse(stored) };
+        // Earlier versions saved the key without asking; it is dropped from storage now.
+        if (settings.apiKey && !settings.rememberApiKey) {
+            saveProviderSettings(settings);
+            return { ...settings, apiKey: '' };
+        }
+        return settings;
+    } catch {
+        return defaults;
+    }
+};
+
+export const createProvider = (settings: ProviderSettings): TranslationProvider => {
+    switch (settings.providerId) {
+        case 'gemini':
+            return translationServerProvider;
+        case 'openai-compatible':
+            return createOpenAICompatibleProvider(settings);
+        case 'mock':
+            return mockProvider;
+    }
+};
+
+interface CallOptions {
+    signal?: AbortSignal;
+    // Called before a failed call is retried, e.g. after hitting a rate limit.
+    onRetry?: (notice: RetryNotice) => void;
+}
+
+// Retries transient provider failures and wraps the final one in a message that makes clear the AI call failed.
+// Cancellation is passed through unchanged so callers can tell it apart from failures.
+const callProvider = async <T,>(
+    provider: TranslationProvider,
+    stage: string,
+    call: () => Promise<T>,
+    { signal, onRetry }: CallOptions = {}
+): Promise<T> => {
+    try {
+        return await withRetry(call, notice => {
+            console.warn(`Retrying ${provider.id} ${stage} call (attempt ${notice.attempt + 1}):`, notice.error.message);
+            onRetry?.(notice);
+        }, signal);
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error(`Error in ${provider.id} ${stage} call:`, error);
+        if (error instanceof Error) {
+           throw new Error(`Failed to get translation from AI: ${error.message}`);
+        }
+        throw new Error("An unknown error occurred while communicating with the AI.");
+    }
+};
+
+/**
+ * Finds the text blocks on one image. `sourceLanguage` pins the language of the original text;
+ * when it is undefined the provider detects it for each block.
+ */
+export const detectImageLayout = (
+    base64ImageData: string,
+    mimeType: string,
+    sourceLanguage: string | undefined,
+    provider: TranslationProvider,
+    { signal, onRetry, onPartial }: CallOptions & { onPartial?: (blocks: DetectedBlock[]) => void } = {}
+): Promise<PageLayout> =>
+    callProvider(
+        provider,
+        'detection',
+        () => provider.detectPage({ base64ImageData, mimeType, sourceLanguage, signal, onPartial }),
+        { signal, onRetry }
+    );
+
+const isCenterInside = ({ x, y, width, height }: BoundingBox, area: BoundingBox): boolean => {
+    const centerX = x + width / 2;
+    const centerY = y + height / 2;
+    return centerX >= area.x && centerX < area.x + area.width && centerY >= area.y && centerY < area.y + area.height;
+};
+
+/**
+ * Finds the text blocks on a page. Large scans are downscaled first; very large ones are detected
+ * tile by tile, and the blocks of all tiles are stitched back into page percentages. Where tiles
+ * overlap, a block is kept only by the tile whose core contains its center, so text spanning a
+ * tile edge is not detected twice.
+ *
+ * `redactions` are blacked out before upload. Blocks the model still reports inside them are
+ * dropped, so the original pixels stay uncovered in the overlay and exports.
+ */
+export const detectSourcePage = async (
+    page: SourcePage,
+    sourceLanguage: string | undefined,
+    provider: TranslationProvider,
+    { signal, onRetry, onPartial, redactions = [] }: CallOptions & {
+        onPartial?: (blocks: DetectedBlock[]) => void;
+        redactions?: BoundingBox[];
+    } = {}
+): Promise<PageLayout> => {
+    const images = await prepareApiImages(page, redactions);
+    const regions = images.map(image => image.region);
+
+    const blocks: DetectedBlock[] = [];
+    const formattedTexts: string[] = [];
+    const warnings: string[] = [];
+    for (const [index, { base64ImageData, mimeType, region }] of images.entries()) {
+        const core = getTileCore(region, regions);
+        // Ids are only unique within a tile.
+        const prefix = images.length > 1 ? `t${index + 1}-` : '';
+        const toPageBlocks = (tileBlocks: DetectedBlock[]) => tileBlocks
+            .map(block => ({
+                ...block,
+                boundingBox: toPageBox(block.boundingBox, region),
+                quad: block.quad && toPageQuad(block.quad, region),
+                id: block.id && prefix + block.id,
+                labelId: block.labelId && prefix + block.labelId,
+                table: block.table && { ...block.table, tableId: prefix + block.table.tableId },
+            }))
+            .filter(block => images.length === 1 || isCenterInside(block.boundingBox, core))
+            .filter(block => !redactions.some(redaction => isCenterInside(block.boundingBox, redaction)));
+
+        const layout = await detectImageLayout(base64ImageData, mimeType, sourceLanguage, provider, {
+            signal,
+            onRetry,
+            onPartial: onPartial && (tileBlocks => onPartial([...blocks, ...toPageBlocks(tileBlocks)])),
+        });
+        blocks.push(...toPageBlocks(layout.blocks));
+        if (layout.formattedText) formattedTexts.push(layout.formattedText);
+        const tileLabel = images.length > 1 ? `Tile ${index + 1} of ${images.length}: ` : '';
+        warnings.push(...(layout.warnings ?? []).map(warning => tileLabel + warning));
+    }
+
+    return {
+        blocks,
+        formattedText: formattedTexts.join('\n\n'),
+        warnings: warnings.length > 0 ? warnings : undefined,
+    };
+};
+
+// Rebuilds the text view from the blocks, in the "Original (Translated)" style the prompt asks for.
+const buildFormattedTranslation = (blocks: TranslatedBlock[]): string =>
+    [...blocks]
+        .sort(compareReadingOrder)
+        .map(block => (block.inTargetLanguage ? block.originalText : `${block.originalText} (${block.translatedText})`))
+        .join('\n\n');
+
+// A page whose blocks have been detected but not translated yet, shown while translating.
+const toPendingPage = (blocks: DetectedBlock[]): PageTranslation => ({
+    translationBlocks: blocks.map(block => ({ ...block, translatedText: '', isPending: true })),
+    formattedTranslation: '',
+});
+
+export interface TranslationContext extends CallOptions {
+    glossary?: GlossaryEntry[];
+    // Remembered translations into the target language, see loadTranslationMemory.
+    memory?: TranslationMemoryEntry[];
+    // Receives the page with the translations received so far while the response streams in.
+    onPartial?: (page: PageTranslation) => void;
+}
+
+/**
+ * Translates the blocks of a detected page into one language, keeping their bounding boxes,
+ * layout hints and detected languages. Blocks with an exact translation memory match are filled
+ * in directly; only the remaining texts are sent to the AI, together with the glossary terms and
+ * similar remembered translations that apply to them.
+ */
+export const translateLayout = async (
+    layout: PageLayout,
+    targetLanguage: string,
+    sourceLanguage: string | undefined,
+    provider: TranslationProvider,
+    { glossary = [], memory = [], signal, onRetry, onPartial }: TranslationContext = {}
+): Promise<PageTranslation> => {
+    const matches = layout.blocks.map(block => findMemoryMatch(memory, block.originalText, sourceLanguage ?? block.detectedLanguage));
+    const pending = layout.blocks.flatMap((_, index) => (matches[index]?.match.kind === 'exact' ? [] : [index]));
+    const texts = pending.map(index => layout.blocks[index].originalText);
+    const references = pending.flatMap(index => {
+        const found = matches[index];
+        return found ? [{ source: found.entry.sourceText, translation: found.entry.targetText }] : [];
+    });
+
+    // Blocks without a translation yet are marked as pending.
+    const buildBlocks = (received: string[]): TranslatedBlock[] => layout.blocks.map((block, index) => {
+        const found = matches[index];
+        const translatedText = found?.match.kind === 'exact' ? found.entry.targetText : received[pending.indexOf(index)];
+        return {
+            ...block,
+            translatedText: translatedText ?? '',
+            memoryMatch: found?.match,
+            isPending: translatedText === undefined || undefined,
+        };
+    });
+
+    let receivedCount = -1;
+    const handlePartial = onPartial && ((received: string[]) => {
+        if (received.length === receivedCount) return;
+        receivedCount = received.length;
+        onPartial({ translationBlocks: buildBlocks(received), formattedTranslation: '' });
+    });
+    handlePartial?.([]);
+
+    const { translations, formattedTranslation }: TextTranslationResponse = texts.length === 0
+        ? { translations: [] }
+        : await callProvider(provider, 'text translation', () =>
+            provider.translateTexts({
+                texts,
+                targetLanguage,
+                sourceLanguage,
+                formattedText: layout.formattedText || undefined,
+                glossary: filterTermsForTexts(getGlossaryTerms(glossary, targetLanguage), texts),
+                references: references.length > 0 ? references : undefined,
+                signal,
+                onPartial: handlePartial,
+            }),
+            { signal, onRetry }
+        );
+
+    const marked = markBlocksInTargetLanguage({ translationBlocks: buildBlocks(translations), formattedTranslation: '' }, targetLanguage);
+    return {
+        ...marked,
+        formattedTranslation: formattedTranslation || buildFormattedTranslation(marked.translationBlocks),
+        warnings: layout.warnings,
+    };
+};
+
+/**
+ * Translates a single text, e.g. a block whose original text the user corrected.
+ */
+export const translateText = async (
+    text: string,
+    targetLanguage: string,
+    sourceLanguage: string | undefined,
+    provider: TranslationProvider,
+    glossary: GlossaryEntry[] = []
+): Promise<string> => {
+    const { translations } = await callProvider(provider, 'text translation', () =>
+        provider.translateTexts({
+            texts: [text],
+            targetLanguage,
+            sourceLanguage,
+            glossary: filterTermsForTexts(getGlossaryTerms(glossary, targetLanguage), [text]),
+        })
+    );
+    return translations[0];
+};
+
+export interface TranslateDocumentOptions {
+    targetLanguages: string[];
+    sourceLanguage?: string;
+    provider: TranslationProvider;
+    glossary?: GlossaryEntry[];
+    // Hash of the uploaded file. When given, detected layouts are cached under it and reused.
+    fileHash?: string;
+    // Regions to mask on each page before it is sent to the AI, indexed by page.
+    redactions?: BoundingBox[][];
+    // Whether to reuse the browser's translation memory. Off outside the browser, where there is none.
+    useMemory?: boolean;
+    // Aborting it stops the translation with an AbortError.
+    signal?: AbortSignal;
+    onRetry?: (notice: RetryNotice) => void;
+    // Receives the results so far whenever more blocks arrive, so callers can show them while the
+    // rest is still being translated. The page being worked on is the last page of each result,
+    // with its untranslated blocks marked as pending.
+    onProgress?: (partial: TranslationResult[], progress: TranslationProgress) => void;
+}
+
+/**
+ * Translates every page of a document in order into each target language. Each page is
+ * detected once, or taken from the layout cache, and only its texts are translated per language,
+ * reusing the translation memory for that language.
+ */
+export const translateDocument = async (
+    pages: SourcePage[],
+    { targetLanguages, sourceLanguage, provider, glossary, fileHash, redactions = [], useMemory = true, signal, onRetry, onProgress }: TranslateDocumentOptions
+): Promise<TranslationResult[]> => {
+    if (targetLanguages.length === 0) {
+        throw new Error("Please choose at least one target language.");
+    }
+
+    const translatedPages: PageTranslation[][] = targetLanguages.map(() => []);
+    // The partially translated current page per language, if any.
+    const currentPages: (PageTranslation | null)[] = targetLanguages.map(() => null);
+    const toResults = () => targetLanguages.map((targetLanguage, index) => ({
+        targetLanguage,
+        sourceLanguage,
+        pages: currentPages[index] ? [...translatedPages[index], currentPages[index]!] : [...translatedPages[index]],
+    }));
+    const reportProgress = (progress: TranslationProgress) => onProgress?.(toResults(), progress);
+
+    const memories = useMemory
+        ? await Promise.all(targetLanguages.map(targetLanguage => loadTranslationMemory(targetLanguage)))
+        : targetLanguages.map(() => []);
+
+    for (const [pageIndex, sourcePage] of pages.entries()) {
+        throwIfAborted(signal);
+        reportProgress({ page: pageIndex, stage: 'detecting' });
+
+        const pageRedactions = redactions[pageIndex] ?? [];
+        const cacheKey = fileHash
+            ? { fileHash, pageIndex, providerId: provider.id, providerFingerprint: provider.fingerprint, sourceLanguage, redactions: pageRedactions }
+            : null;
+        let layout = cacheKey ? await getCachedLayout(cacheKey) : undefined;
+        if (!layout) {
+            let detectedCount = 0;
+            layout = await detectSourcePage(sourcePage, sourceLanguage, provider, {
+                signal,
+                onRetry,
+                redactions: pageRedactions,
+                onPartial: blocks => {
+                    if (blocks.length === detectedCount) return;
+                    detectedCount = blocks.length;
+                    currentPages.fill(toPendingPage(blocks));
+                    reportProgress({ page: pageIndex, stage: 'detecting' });
+                },
+            });
+            if (cacheKey) await cacheLayout(cacheKey, layout);
+        }
+        currentPages.fill(toPendingPage(layout.blocks));
+
+        for (const [index, targetLanguage] of targetLanguages.entries()) {
+            const page = await translateLayout(layout, targetLanguage, sourceLanguage, provider, {
+                glossary,
+                memory: memories[index],
+                signal,
+                onRetry,
+                onPartial: partial => {
+                    currentPages[index] = partial;
+                    reportProgress({ page: pageIndex, stage: 'translating' });
+                },
+            });
+            currentPages[index] = page;
+        }
+
+        targetLanguages.forEach((_, index) => translatedPages[index].push(currentPages[index]!));
+        currentPages.fill(null);
+    }
+
+    return toResults();
+};
+
+/**
+ * Translates just one region of a page, such as a box the user drew by hand,
+ * and returns a single block covering that region. Redacted regions are masked as for the whole page.
+ */
+export const translateRegion = async (
+    page: SourcePage,
+    boundingBox: BoundingBox,
+    targetLanguage: string,
+    sourceLanguage: string | undefined,
+    provider: TranslationProvider,
+    glossary: GlossaryEntry[] = [],
+    redactions: BoundingBox[] = []
+): Promise<TranslatedBlock> => {
+    const { base64ImageData, mimeType } = await prepareRegionImage(page, boundingBox, redactions);
+    const { blocks } = await detectImageLayout(base64ImageData, mimeType, sourceLanguage, provider);
+    const [first] = blocks;
+    const originalText = blocks.map(block => block.originalText).join(' ');
+
+    const [block] = markBlocksInTargetLanguage({
+        translationBlocks: [{
+            originalText,
+            translatedText: originalText ? await translateText(originalText, targetLanguage, sourceLanguage, provider, glossary) : '',
+            boundingBox,
+            detectedLanguage: first?.detectedLanguage,
+            languageConfidence: first?.languageConfidence,
+        }],
+        formattedTranslation: '',
+    }, targetLanguage).translationBlocks;
+    return block;
+};
@@ -1,4 +1,3 @@
-
 export interface BoundingBox {
   x: number;
   y: number;
@@ -6,18 +5,328 @@ export interface BoundingBox {
   height: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners of a region in page percentages: top-left, top-right, bottom-right, bottom-left of the text as it is read.
+export type Quad = [Point, Point, Point, Point];
+
 export interface TranslatedBlock {
   originalText: string;
   translatedText: string;
+  // Axis-aligned box around the text. For rotated or skewed text it encloses the quad.
   boundingBox: BoundingBox;
+  // Layout hints reported by the model: horizontal alignment and clockwise rotation in degrees.
+  textAlign?: TextAlign;
+  rotation?: number;
+  // The exact outline of rotated or skewed text, such as stamps and photographed pages. Takes precedence over rotation.
+  quad?: Quad;
+  writingMode?: WritingMode;
+  // What the block is in the document's structure, as reported by the model.
+  role?: BlockRole;
+  // Identifies the block within its page, so other blocks can refer to it.
+  id?: string;
+  // For values: the id of the label block they belong to, as in "Name: Jane Doe".
+  labelId?: string;
+  // For table cells: the table and the cell's position in it.
+  table?: TableCellPosition;
+  // Set once a reviewer has corrected the block by hand.
+  isEdited?: boolean;
+  // Language of the original text as reported by the model (English name), with its confidence from 0 to 1.
+  detectedLanguage?: string;
+  languageConfidence?: number;
+  // Detected but not translated yet; only set on the partial results shown while translating.
+  isPending?: boolean;
+  // Set when the translation was taken from, or guided by, the local translation memory.
+  memoryMatch?: MemoryMatch;
+  // The original is already in the target language, so it is left untouched on the page.
+  inTargetLanguage?: boolean;
 }
 
-export interface TranslationResult {
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type BlockRole = 'heading' | 'paragraph' | 'label' | 'value' | 'table-cell' | 'caption' | 'figure';
+
+export interface TableCellPosition {
+  tableId: string;
+  // Zero-based; row 0 is the header row when the table has one.
+  row: number;
+  column: number;
+}
+
+// vertical: columns read top to bottom and right to left, as in traditional Japanese and Chinese.
+export type WritingMode = 'horizontal' | 'vertical';
+
+// exact: reused as is without asking the AI; fuzzy: a similar segment was passed to the AI as a reference.
+export interface MemoryMatch {
+  kind: 'exact' | 'fuzzy';
+  // Similarity of the original texts, from 0 to 1.
+  score: number;
+}
+
+// A reviewed segment translation stored in the local translation memory.
+export interface TranslationMemoryEntry {
+  id: string;
+  sourceText: string;
+  targetText: string;
+  // Base BCP-47 subtag of the source ("und" if unknown) and full tag of the target language.
+  sourceLanguage: string;
+  targetLanguage: string;
+  updatedAt: number;
+}
+
+// The translation of a single image or rasterized PDF page.
+export interface PageTranslation {
   translationBlocks: TranslatedBlock[];
   formattedTranslation: string;
+  // Problems in the AI response that were repaired or caused blocks to be left out.
+  warnings?: string[];
+}
+
+// Pages are stored in document order, matching the SourcePage array they were translated from.
+export interface TranslationResult {
+  targetLanguage: string;
+  // Set when the user pinned the source language instead of letting it be detected per block.
+  sourceLanguage?: string;
+  pages: PageTranslation[];
+}
+
+// A single image that can be displayed, sent to the AI and overlaid.
+// Plain images produce one page; PDFs produce one page per PDF page.
+export interface SourcePage {
+  dataURL: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// Why a region of a page is hidden from the AI: drawn by the user, or found by automatic detection.
+export type RedactionSource = 'manual' | 'face' | 'digits' | 'email' | 'mrz';
+
+// A region, in page percentages, that is masked locally before the page is sent to the AI.
+// Only the uploaded copy is masked; the overlay and exports keep the original pixels.
+export interface Redaction {
+  box: BoundingBox;
+  source: RedactionSource;
+}
+
+// How the area behind a translated block is filled before the translation is drawn:
+// interpolated from the surrounding pixels, a single sampled color, or the classic dark box.
+export type BackgroundFillMode = 'inpaint' | 'solid' | 'dark';
+
+// Structured text exports built from the translation blocks.
+export type TextExportFormat = 'docx' | 'html' | 'markdown' | 'text' | 'xliff' | 'tmx';
+
+// Per-block colors used by the interactive overlay.
+export interface BlockAppearance {
+  backgroundColor: string;
+  textColor: string;
+  // Data URL of the inpainted background, only present in 'inpaint' mode.
+  backgroundImage?: string;
+}
+
+export type ScriptId =
+  | 'latin'
+  | 'japanese'
+  | 'chinese-simplified'
+  | 'chinese-traditional'
+  | 'korean'
+  | 'arabic'
+  | 'hebrew'
+  | 'devanagari'
+  | 'thai';
+
+// How text in a given writing system is shaped, broken into lines and drawn.
+export interface ScriptProfile {
+  // Font loaded on demand for canvas rendering and embedded into PDF exports.
+  fontFamily: string;
+  fontUrl: string;
+  // System fonts used while the web font loads or if it cannot be fetched.
+  fallbackFonts: string;
+  direction: 'ltr' | 'rtl';
+  // Set for scripts that can be set in vertical columns with upright characters.
+  verticalText?: boolean;
+  // BCP-47 tag used for line breaking and the overlay's lang attribute.
+  locale: string;
 }
 
 export interface Language {
+    // English name, sent to the AI and stored with translation results.
     value: string;
     label: string;
-}
\ No newline at end of file
+    // The language's name for itself, shown next to the label and matched by search.
+    nativeName: string;
+    // BCP-47 tag, including the region or script for variants such as pt-BR or zh-Hant.
+    code: string;
+    // Writing system, which decides the fonts, line breaking and text direction.
+    script: ScriptId;
+}
+
+// loading: pages are being read/rasterized; ready: loaded but not yet submitted for translation.
+export type JobStatus = 'loading' | 'ready' | 'queued' | 'translating' | 'done' | 'error';
+
+// Zero-based index of the page being translated and the stage it is in.
+export interface TranslationProgress {
+  page: number;
+  stage: 'detecting' | 'translating';
+}
+
+// One uploaded file moving through the batch queue.
+export interface TranslationJob {
+  id: string;
+  file: File;
+  status: JobStatus;
+  pages: SourcePage[];
+  // One result per target language, in the order of targetLanguages. Partial while translating.
+  results: TranslationResult[];
+  // Settings captured when the job was queued, so later changes don't affect queued work.
+  targetLanguages: string[];
+  // Null when the source language is detected automatically.
+  sourceLanguage: string | null;
+  providerSettings: ProviderSettings | null;
+  // Glossary entries that were enabled when the job was queued.
+  glossary: GlossaryEntry[];
+  // Regions to mask before each page is sent to the AI, indexed by page.
+  redactions: Redaction[][];
+  attempts: number;
+  error?: string;
+  // Transient status while translating, e.g. that a rate-limited call is about to be retried.
+  notice?: string;
+  progress?: TranslationProgress;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  // Required translation of the source term. Ignored for do-not-translate entries.
+  target: string;
+  // Names, ID numbers, brands and similar terms that must be copied unchanged.
+  doNotTranslate: boolean;
+  // Target language the entry applies to; empty for every language.
+  language: string;
+}
+
+// A user-managed list of terms. Only enabled glossaries are applied to new translations.
+export interface Glossary {
+  id: string;
+  name: string;
+  isEnabled: boolean;
+  entries: GlossaryEntry[];
+}
+
+// A glossary entry resolved for one target language: `target` is what the translation must contain.
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+  doNotTranslate: boolean;
+}
+
+// A translation saved in the browser so it can be reopened without calling the AI again.
+// Pages are not stored; they are rendered again from the source file when the project is opened.
+export interface TranslationProject {
+  id: string;
+  name: string;
+  fileName: string;
+  file: Blob;
+  targetLanguages: string[];
+  // One result per target language, including any corrections made in the editor.
+  results: TranslationResult[];
+  // Regions masked before each page is sent to the AI, indexed by page, so translating the
+  // project again keeps them hidden.
+  redactions: Redaction[][];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TranslationProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderSettings {
+  providerId: TranslationProviderId;
+  // Only used by the OpenAI-compatible provider.
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  // Whether the API key is saved in the browser. Otherwise it is kept only until the page is closed.
+  rememberApiKey?: boolean;
+}
+
+// A text block found on a page, before it has been translated.
+export type DetectedBlock = Omit<TranslatedBlock, 'translatedText' | 'isEdited' | 'inTargetLanguage' | 'isPending' | 'memoryMatch'>;
+
+// The result of the detection stage: what text is on a page and where. It does not depend on the
+// target language, so it is computed once per page and reused for every translation.
+export interface PageLayout {
+  blocks: DetectedBlock[];
+  // The page's text arranged as a readable document, in the original language.
+  formattedText: string;
+  warnings?: string[];
+}
+
+// Options shared by all provider calls.
+export interface ProviderCallOptions {
+  // Cancels the request when aborted.
+  signal?: AbortSignal;
+}
+
+export interface DetectionRequest extends ProviderCallOptions {
+  base64ImageData: string;
+  mimeType: string;
+  sourceLanguage?: string;
+  // Receives the blocks parsed so far while the response is still streaming in.
+  onPartial?: (blocks: DetectedBlock[]) => void;
+}
+
+// Texts that have already been extracted, to be translated without looking at the image again.
+export interface TextTranslationRequest extends ProviderCallOptions {
+  texts: string[];
+  targetLanguage: string;
+  sourceLanguage?: string;
+  // When given, a translated version of this document is returned as well.
+  formattedText?: string;
+  // Terms whose translation is prescribed by the user's glossaries.
+  glossary?: GlossaryTerm[];
+  // Approved translations of texts similar to some of the input texts, to keep wording consistent.
+  references?: { source: string; translation: string }[];
+  // Receives the translations parsed so far while the response is still streaming in.
+  onPartial?: (translations: string[]) => void;
+}
+
+export interface TextTranslationResponse {
+  // One translation per input text, in the same order.
+  translations: string[];
+  formattedTranslation?: string;
+}
+
+// A backend that can detect the text on a page image and translate extracted texts.
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  // Tells apart providers of the same kind that reach different endpoints or models, whose
+  // detected layouts differ. Unset for providers that always use the same model.
+  fingerprint?: string;
+  detectPage(request: DetectionRequest): Promise<PageLayout>;
+  translateTexts(request: TextTranslationRequest): Promise<TextTranslationResponse>;
+}
+
+// Why the translation server refused or failed a request. The app maps these to its own messages.
+export type TranslationServerErrorCode =
+  | 'invalid_request'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'not_configured'
+  | 'upstream_rate_limited'
+  | 'upstream_error'
+  | 'internal_error';
+
+// The error body of the translation server, also sent as the last line of a stream that failed.
+export interface TranslationServerError {
+  code: TranslationServerErrorCode;
+  message: string;
+  status: number;
+  // Whether sending the same request again later can succeed.
+  retryable: boolean;
+  retryAfterSeconds?: number;
+}
@@ -1,16 +1,40 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the translation server (server/index.ts), which reads it at runtime.
+    // The browser bundle only learns whether one is configured, to pick the default engine.
+    const serverUrl = `http://localhost:${env.TRANSLATION_SERVER_PORT || 8787}`;
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      define: isSsrBuild ? {} : {
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : '')),
+        'process.env.TRANSLATION_SERVER_URL': JSON.stringify(env.TRANSLATION_SERVER_URL ?? ''),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL ?? ''),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL ?? '')
       },
+      server: {
+        proxy: {
+          '/api': serverUrl,
+        }
+      },
+      preview: {
+        proxy: {
+          '/api': serverUrl,
+        }
+      },
+      // `--mode lib` builds the Node library and the tomeus command; other SSR builds are the translation server.
+      build: !isSsrBuild ? {} : mode === 'lib' ? {
+        outDir: 'dist-lib',
+        rollupOptions: {
+          input: { index: 'lib/index.ts', cli: 'lib/cli.ts' },
+        },
+      } : { outDir: 'dist-server' },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // The Node library and the tests run pdf.js in Node, which only works with its legacy build.
+          ...((isSsrBuild && mode === 'lib') || mode === 'test' ? { 'pdfjs-dist': 'pdfjs-dist/legacy/build/pdf.mjs' } : {}),
         }
       }
     };